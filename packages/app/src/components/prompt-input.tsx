@@ -1266,7 +1266,7 @@ export const PromptInput: Component<PromptInputProps> = (props) => {
                     size="normal"
                     options={agentNames()}
                     current={local.agent.current()?.name ?? ""}
-                    onSelect={local.agent.set}
+                    onSelect={local.agent.select}
                     class="capitalize max-w-[160px]"
                     valueClass="truncate text-13-regular"
                     triggerStyle={{ height: "28px" }}
@@ -65,6 +65,8 @@ beforeAll(async () => {
       },
       agent: {
         current: () => ({ name: "agent" }),
+        manuallySelected: () => false,
+        resetManualSelection: () => undefined,
       },
     }),
   }))
@@ -215,6 +215,7 @@ export function createPromptSubmit(input: PromptSubmitInput) {
       providerID: currentModel.provider.id,
     }
     const agent = currentAgent.name
+    const pinned = local.agent.manuallySelected()
     const variant = local.model.variant.current()
 
     const clearInput = () => {
@@ -329,6 +330,7 @@ export function createPromptSubmit(input: PromptSubmitInput) {
     removeCommentItems(commentItems)
     clearInput()
     addOptimisticMessage()
+    local.agent.resetManualSelection()
 
     const waitForWorktree = async () => {
       const worktree = WorktreeState.get(sessionDirectory)
@@ -390,7 +392,9 @@ export function createPromptSubmit(input: PromptSubmitInput) {
       if (!ok) return
       await client.session.promptAsync({
         sessionID: session.id,
-        agent,
+        // Without a picked agent the server assesses the prompt and records why
+        agent: pinned ? agent : undefined,
+        override: pinned,
         model,
         messageID,
         parts: requestParts,
@@ -1,11 +1,11 @@
-import type { Todo } from "@opencode-ai/sdk/v2"
+import type { QueueTask, Todo } from "@opencode-ai/sdk/v2"
 import { Checkbox } from "@opencode-ai/ui/checkbox"
 import { IconButton } from "@opencode-ai/ui/icon-button"
 import { For, Show, createEffect, createMemo, createSignal, on, onCleanup } from "solid-js"
 import { createStore } from "solid-js/store"
 
-function dot(status: Todo["status"]) {
-  if (status !== "in_progress") return undefined
+function dot(status: Todo["status"] | QueueTask["status"]) {
+  if (status !== "in_progress" && status !== "running") return undefined
   return (
     <svg
       viewBox="0 0 12 12"
@@ -29,18 +29,50 @@ function dot(status: Todo["status"]) {
   )
 }
 
-export function SessionTodoDock(props: { todos: Todo[]; title: string; collapseLabel: string; expandLabel: string }) {
+export type SessionQueueDock = {
+  tasks: QueueTask[]
+  title: string
+  labels: {
+    run: string
+    cancel: string
+    requeue: string
+    moveUp: string
+    moveDown: string
+    open: string
+    files: (count: number) => string
+    violations: (count: number) => string
+  }
+  onRun: () => void
+  onCancel: (task: QueueTask) => void
+  onRequeue: (task: QueueTask) => void
+  onMove: (task: QueueTask, offset: number) => void
+  onOpen: (task: QueueTask) => void
+}
+
+export function SessionTodoDock(props: {
+  todos: Todo[]
+  title: string
+  collapseLabel: string
+  expandLabel: string
+  queue?: SessionQueueDock
+}) {
   const [store, setStore] = createStore({
     collapsed: false,
   })
 
   const toggle = () => setStore("collapsed", (value) => !value)
 
+  const tasks = createMemo(() => props.queue?.tasks ?? [])
+
   const summary = createMemo(() => {
-    const total = props.todos.length
-    if (total === 0) return ""
-    const completed = props.todos.filter((todo) => todo.status === "completed").length
-    return `${completed} of ${total} ${props.title.toLowerCase()} completed`
+    const parts = [
+      [props.todos.filter((todo) => todo.status === "completed").length, props.todos.length, props.title] as const,
+      [tasks().filter((task) => task.status === "completed").length, tasks().length, props.queue?.title ?? ""] as const,
+    ]
+    return parts
+      .filter(([, total]) => total > 0)
+      .map(([completed, total, title]) => `${completed} of ${total} ${title.toLowerCase()} completed`)
+      .join(" · ")
   })
 
   const active = createMemo(
@@ -51,7 +83,12 @@ export function SessionTodoDock(props: { todos: Todo[]; title: string; collapseL
       props.todos[0],
   )
 
-  const preview = createMemo(() => active()?.content ?? "")
+  const preview = createMemo(
+    () =>
+      active()?.content ??
+      (tasks().find((task) => task.status === "running") ?? tasks().find((task) => task.status === "pending"))?.title ??
+      "",
+  )
 
   return (
     <div
@@ -99,7 +136,12 @@ export function SessionTodoDock(props: { todos: Todo[]; title: string; collapseL
       </div>
 
       <div hidden={store.collapsed}>
-        <TodoList todos={props.todos} open={!store.collapsed} />
+        <Show when={props.todos.length > 0}>
+          <TodoList todos={props.todos} open={!store.collapsed} />
+        </Show>
+        <Show when={props.queue && tasks().length > 0 ? props.queue : undefined}>
+          {(queue) => <QueueList queue={queue()} />}
+        </Show>
       </div>
     </div>
   )
@@ -206,3 +248,119 @@ function TodoList(props: { todos: Todo[]; open: boolean }) {
     </div>
   )
 }
+
+function QueueList(props: { queue: SessionQueueDock }) {
+  const pending = createMemo(() => props.queue.tasks.filter((task) => task.status === "pending"))
+  const running = createMemo(() => props.queue.tasks.some((task) => task.status === "running"))
+
+  const meta = (task: QueueTask) => {
+    const notes = [
+      task.files.length > 0 ? props.queue.labels.files(task.files.length) : "",
+      task.review?.verdict === "fail" ? props.queue.labels.violations(task.review.violations.length) : "",
+      task.error ?? "",
+    ]
+    return notes.filter(Boolean).join(" · ")
+  }
+
+  const action = (input: { icon: Parameters<typeof IconButton>[0]["icon"]; label: string; onClick: () => void }) => (
+    <IconButton
+      icon={input.icon}
+      size="normal"
+      variant="ghost"
+      aria-label={input.label}
+      title={input.label}
+      onClick={(event) => {
+        event.stopPropagation()
+        input.onClick()
+      }}
+    />
+  )
+
+  return (
+    <div
+      data-component="session-queue-dock"
+      class="px-3 pb-11 flex flex-col gap-1.5 max-h-42 overflow-y-auto no-scrollbar"
+    >
+      <div class="flex items-center gap-2">
+        <span class="text-12-medium text-text-weak">{props.queue.title}</span>
+        <Show when={pending().length > 0 && !running()}>
+          <div class="ml-auto">
+            {action({ icon: "arrow-right", label: props.queue.labels.run, onClick: props.queue.onRun })}
+          </div>
+        </Show>
+      </div>
+      <For each={props.queue.tasks}>
+        {(task, index) => (
+          <div class="group flex items-start gap-2" data-status={task.status}>
+            <Checkbox
+              readOnly
+              checked={task.status === "completed"}
+              indeterminate={task.status === "running"}
+              icon={dot(task.status)}
+              style={{ "--checkbox-align": "flex-start", "--checkbox-offset": "1px" }}
+            >
+              <span
+                class="text-14-regular min-w-0 break-words"
+                classList={{
+                  "text-text-weak": task.status === "completed" || task.status === "cancelled",
+                  "text-text-critical-base": task.status === "failed",
+                  "text-text-strong": task.status === "pending" || task.status === "running",
+                }}
+                style={{
+                  "line-height": "var(--line-height-normal)",
+                  "text-decoration": task.status === "cancelled" ? "line-through" : undefined,
+                }}
+              >
+                {task.title}
+              </span>
+              <Show when={meta(task)}>
+                <span class="ml-2 text-12-regular text-text-weak">{meta(task)}</span>
+              </Show>
+            </Checkbox>
+            <div class="ml-auto flex items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+              <Show when={task.status === "pending"}>
+                <Show when={index() > 0}>
+                  {action({
+                    icon: "arrow-up",
+                    label: props.queue.labels.moveUp,
+                    onClick: () => props.queue.onMove(task, -1),
+                  })}
+                </Show>
+                <Show when={index() < props.queue.tasks.length - 1}>
+                  <div class="rotate-180">
+                    {action({
+                      icon: "arrow-up",
+                      label: props.queue.labels.moveDown,
+                      onClick: () => props.queue.onMove(task, 1),
+                    })}
+                  </div>
+                </Show>
+              </Show>
+              <Show when={task.status === "pending" || task.status === "running"}>
+                {action({
+                  icon: "circle-ban-sign",
+                  label: props.queue.labels.cancel,
+                  onClick: () => props.queue.onCancel(task),
+                })}
+              </Show>
+              <Show when={task.status === "completed" || task.status === "failed" || task.status === "cancelled"}>
+                {action({
+                  icon: "arrow-down-to-line",
+                  label: props.queue.labels.requeue,
+                  onClick: () => props.queue.onRequeue(task),
+                })}
+              </Show>
+              <Show when={task.childID}>
+                {action({
+                  icon: "square-arrow-top-right",
+                  label: props.queue.labels.open,
+                  onClick: () => props.queue.onOpen(task),
+                })}
+              </Show>
+            </div>
+          </div>
+        )}
+      </For>
+    </div>
+  )
+}
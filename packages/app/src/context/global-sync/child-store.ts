@@ -169,6 +169,7 @@ export function createChildStoreManager(input: {
             session_status: {},
             session_diff: {},
             todo: {},
+            queue: {},
             permission: {},
             question: {},
             mcp: {},
@@ -1,5 +1,13 @@
 import { describe, expect, test } from "bun:test"
-import type { Message, Part, PermissionRequest, Project, QuestionRequest, Session } from "@opencode-ai/sdk/v2/client"
+import type {
+  Message,
+  Part,
+  PermissionRequest,
+  Project,
+  QuestionRequest,
+  QueueTask,
+  Session,
+} from "@opencode-ai/sdk/v2/client"
 import { createStore } from "solid-js/store"
 import type { State } from "./types"
 import { applyDirectoryEvent, applyGlobalEvent } from "./event-reducer"
@@ -73,6 +81,7 @@ const baseState = (input: Partial<State> = {}) =>
     session_status: {},
     session_diff: {},
     todo: {},
+    queue: {},
     permission: {},
     question: {},
     mcp: {},
@@ -175,6 +184,7 @@ describe("applyDirectoryEvent", () => {
         part: { [message.id]: [textPart("prt_1", "ses_1", message.id)] },
         session_diff: { ses_1: [] },
         todo: { ses_1: [] },
+        queue: { ses_1: [] },
         permission: { ses_1: [] },
         question: { ses_1: [] },
         session_status: { ses_1: { type: "busy" } },
@@ -196,6 +206,7 @@ describe("applyDirectoryEvent", () => {
     expect(store.part[message.id]).toBeUndefined()
     expect(store.session_diff.ses_1).toBeUndefined()
     expect(store.todo.ses_1).toBeUndefined()
+    expect(store.queue.ses_1).toBeUndefined()
     expect(store.permission.ses_1).toBeUndefined()
     expect(store.question.ses_1).toBeUndefined()
     expect(store.session_status.ses_1).toBeUndefined()
@@ -437,6 +448,37 @@ describe("applyDirectoryEvent", () => {
     expect(store.question[sessionID]?.map((x) => x.id)).toEqual(["q_1", "q_3"])
   })
 
+  test("replaces the session task queue", () => {
+    const task = (id: string, status: QueueTask["status"]): QueueTask => ({
+      id,
+      sessionID: "ses_1",
+      title: id,
+      prompt: id,
+      agent: "general",
+      status,
+      position: 0,
+      files: [],
+      time: { created: 1, updated: 1 },
+    })
+    const [store, setStore] = createStore(baseState({ queue: { ses_1: [task("tsk_1", "running")] } }))
+
+    applyDirectoryEvent({
+      event: {
+        type: "session.queue.updated",
+        properties: { sessionID: "ses_1", tasks: [task("tsk_1", "completed"), task("tsk_2", "pending")] },
+      },
+      store,
+      setStore,
+      push() {},
+      directory: "/tmp",
+      loadLsp() {},
+    })
+    expect(store.queue.ses_1?.map((x) => [x.id, x.status])).toEqual([
+      ["tsk_1", "completed"],
+      ["tsk_2", "pending"],
+    ])
+  })
+
   test("updates vcs branch in store and cache", () => {
     const [store, setStore] = createStore(baseState())
     const [cacheStore, setCacheStore] = createStore({ value: undefined as State["vcs"] })
@@ -7,6 +7,7 @@ import type {
   PermissionRequest,
   Project,
   QuestionRequest,
+  QueueTask,
   Session,
   SessionStatus,
   Todo,
@@ -50,6 +51,7 @@ function cleanupSessionCaches(
     store.message[sessionID] !== undefined ||
     store.session_diff[sessionID] !== undefined ||
     store.todo[sessionID] !== undefined ||
+    store.queue[sessionID] !== undefined ||
     store.permission[sessionID] !== undefined ||
     store.question[sessionID] !== undefined ||
     store.session_status[sessionID] !== undefined
@@ -68,6 +70,7 @@ function cleanupSessionCaches(
       delete draft.message[sessionID]
       delete draft.session_diff[sessionID]
       delete draft.todo[sessionID]
+      delete draft.queue[sessionID]
       delete draft.permission[sessionID]
       delete draft.question[sessionID]
       delete draft.session_status[sessionID]
@@ -159,6 +162,11 @@ export function applyDirectoryEvent(input: {
       input.setSessionTodo?.(props.sessionID, props.todos)
       break
     }
+    case "session.queue.updated": {
+      const props = event.properties as { sessionID: string; tasks: QueueTask[] }
+      input.setStore("queue", props.sessionID, reconcile(props.tasks, { key: "id" }))
+      break
+    }
     case "session.status": {
       const props = event.properties as { sessionID: string; status: SessionStatus }
       input.setStore("session_status", props.sessionID, reconcile(props.status))
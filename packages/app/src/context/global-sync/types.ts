@@ -10,6 +10,7 @@ import type {
   Path,
   PermissionRequest,
   Project,
+  QueueTask,
   ProviderListResponse,
   QuestionRequest,
   Session,
@@ -52,6 +53,9 @@ export type State = {
   todo: {
     [sessionID: string]: Todo[]
   }
+  queue: {
+    [sessionID: string]: QueueTask[]
+  }
   permission: {
     [sessionID: string]: PermissionRequest[]
   }
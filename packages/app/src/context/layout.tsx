@@ -37,6 +37,7 @@ type SessionTabs = {
 type SessionView = {
   scroll: Record<string, SessionScroll>
   reviewOpen?: string[]
+  reveal?: Record<string, number>
   pendingMessage?: string
   pendingMessageAt?: number
 }
@@ -741,6 +742,30 @@ export const { use: useLayout, provider: LayoutProvider } = createSimpleContext(
               setStore("sessionView", session, "reviewOpen", open)
             },
           },
+          reveal: {
+            line(tab: string) {
+              return s().reveal?.[tab]
+            },
+            set(tab: string, line: number) {
+              const session = key()
+              if (!store.sessionView[session]) {
+                setStore("sessionView", session, { scroll: {}, reveal: { [tab]: line } })
+                return
+              }
+              setStore("sessionView", session, "reveal", (reveal) => ({ ...reveal, [tab]: line }))
+            },
+            clear(tab: string) {
+              const session = key()
+              if (store.sessionView[session]?.reveal?.[tab] === undefined) return
+              setStore(
+                "sessionView",
+                session,
+                produce((draft) => {
+                  delete draft.reveal?.[tab]
+                }),
+              )
+            },
+          },
         }
       },
       tabs(sessionKey: string | Accessor<string>) {
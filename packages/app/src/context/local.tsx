@@ -37,9 +37,23 @@ export const { use: useLocal, provider: LocalProvider } = createSimpleContext({
       const list = createMemo(() => sync.data.agent.filter((x) => x.mode !== "subagent" && !x.hidden))
       const [store, setStore] = createStore<{
         current?: string
+        manuallySelected: boolean
       }>({
         current: list()[0]?.name,
+        manuallySelected: false,
       })
+      const set = (name: string | undefined) => {
+        const available = list()
+        if (available.length === 0) {
+          setStore("current", undefined)
+          return
+        }
+        if (name && available.some((x) => x.name === name)) {
+          setStore("current", name)
+          return
+        }
+        setStore("current", available[0].name)
+      }
       return {
         list,
         current() {
@@ -47,18 +61,19 @@ export const { use: useLocal, provider: LocalProvider } = createSimpleContext({
           if (available.length === 0) return undefined
           return available.find((x) => x.name === store.current) ?? available[0]
         },
-        set(name: string | undefined) {
-          const available = list()
-          if (available.length === 0) {
-            setStore("current", undefined)
-            return
-          }
-          if (name && available.some((x) => x.name === name)) {
-            setStore("current", name)
-            return
-          }
-          setStore("current", available[0].name)
+        // Only an agent the user picked is pinned on the prompt; otherwise the
+        // server assesses the prompt and picks one
+        manuallySelected() {
+          return store.manuallySelected
         },
+        resetManualSelection() {
+          setStore("manuallySelected", false)
+        },
+        select(name: string | undefined) {
+          set(name)
+          setStore("manuallySelected", true)
+        },
+        set,
         move(direction: 1 | -1) {
           const available = list()
           if (available.length === 0) {
@@ -71,6 +86,7 @@ export const { use: useLocal, provider: LocalProvider } = createSimpleContext({
           const value = available[next]
           if (!value) return
           setStore("current", value.name)
+          setStore("manuallySelected", true)
           if (value.model)
             setModel({
               providerID: value.model.providerID,
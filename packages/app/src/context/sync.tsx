@@ -109,6 +109,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
     const inflight = new Map<string, Promise<void>>()
     const inflightDiff = new Map<string, Promise<void>>()
     const inflightTodo = new Map<string, Promise<void>>()
+    const inflightQueue = new Map<string, Promise<void>>()
     const [meta, setMeta] = createStore({
       limit: {} as Record<string, number>,
       complete: {} as Record<string, boolean>,
@@ -311,6 +312,19 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
             }),
           )
         },
+        async queue(sessionID: string) {
+          const directory = sdk.directory
+          const client = sdk.client
+          const [store, setStore] = globalSync.child(directory)
+          if (store.queue[sessionID] !== undefined) return
+
+          const key = keyFor(directory, sessionID)
+          return runInflight(inflightQueue, key, () =>
+            retry(() => client.session.queue({ sessionID })).then((queue) => {
+              setStore("queue", sessionID, reconcile(queue.data ?? [], { key: "id" }))
+            }),
+          )
+        },
         history: {
           more(sessionID: string) {
             const store = current()[0]
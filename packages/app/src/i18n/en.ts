@@ -511,6 +511,15 @@ export const dict = {
   "session.todo.title": "Todos",
   "session.todo.collapse": "Collapse",
   "session.todo.expand": "Expand",
+  "session.queue.title": "Queued tasks",
+  "session.queue.run": "Run queue",
+  "session.queue.cancel": "Cancel task",
+  "session.queue.requeue": "Re-queue task",
+  "session.queue.moveUp": "Move up",
+  "session.queue.moveDown": "Move down",
+  "session.queue.open": "Open task session",
+  "session.queue.files": "{{count}} files changed",
+  "session.queue.violations": "{{count}} review violations",
 
   "session.new.worktree.main": "Main branch",
   "session.new.worktree.mainWithBranch": "Main branch ({{branch}})",
@@ -4,6 +4,7 @@ import { useNavigate, useParams } from "@solidjs/router"
 import { SDKProvider, useSDK } from "@/context/sdk"
 import { SyncProvider, useSync } from "@/context/sync"
 import { LocalProvider } from "@/context/local"
+import { useLayout } from "@/context/layout"
 
 import { DataProvider } from "@opencode-ai/ui/context"
 import type { QuestionAnswer } from "@opencode-ai/sdk/v2"
@@ -16,6 +17,10 @@ function DirectoryDataProvider(props: ParentProps<{ directory: string }>) {
   const navigate = useNavigate()
   const sync = useSync()
   const sdk = useSDK()
+  const layout = useLayout()
+  const sessionKey = createMemo(() => `${params.dir}${params.id ? "/" + params.id : ""}`)
+  const tabs = createMemo(() => layout.tabs(sessionKey))
+  const view = createMemo(() => layout.view(sessionKey))
 
   return (
     <DataProvider
@@ -30,6 +35,12 @@ function DirectoryDataProvider(props: ParentProps<{ directory: string }>) {
       onQuestionReject={(input: { requestID: string }) => sdk.client.question.reject(input)}
       onNavigateToSession={(sessionID: string) => navigate(`/${params.dir}/session/${sessionID}`)}
       onSessionHref={(sessionID: string) => `/${params.dir}/session/${sessionID}`}
+      onOpenFile={(path: string, line?: number) => {
+        const tab = "file://" + path
+        if (line) view().reveal.set(tab, line)
+        tabs().open(tab)
+        if (!view().reviewPanel.opened()) view().reviewPanel.open()
+      }}
     >
       <LocalProvider>{props.children}</LocalProvider>
     </DataProvider>
@@ -306,6 +306,7 @@ export default function Page() {
     if (!id) return
     void sync.session.sync(id)
     void sync.session.todo(id)
+    void sync.session.queue(id)
   })
 
   createEffect(
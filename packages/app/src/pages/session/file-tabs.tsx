@@ -283,6 +283,21 @@ export function FileTabContent(props: { tab: string }) {
     requestAnimationFrame(() => comments.clearFocus())
   })
 
+  createEffect(() => {
+    const line = view().reveal.line(props.tab)
+    const p = path()
+    if (!line || !p || !contents()) return
+    if (tabs().active() !== props.tab) return
+
+    file.setSelectedLines(p, { start: line, end: line })
+    view().reveal.clear(props.tab)
+    requestAnimationFrame(() => {
+      const root = getRoot()
+      if (!root) return
+      findMarker(root, { start: line, end: line })?.scrollIntoView({ block: "center" })
+    })
+  })
+
   const getCodeScroll = () => {
     const el = scroll
     if (!el) return []
@@ -1,13 +1,13 @@
 import { For, Show, createEffect, createMemo, createSignal, on, onCleanup } from "solid-js"
-import type { PermissionRequest, QuestionRequest, Todo } from "@opencode-ai/sdk/v2"
-import { useParams } from "@solidjs/router"
+import type { PermissionRequest, QuestionRequest, QueueTask, Todo } from "@opencode-ai/sdk/v2"
+import { useNavigate, useParams } from "@solidjs/router"
 import { Button } from "@opencode-ai/ui/button"
 import { DockPrompt } from "@opencode-ai/ui/dock-prompt"
 import { Icon } from "@opencode-ai/ui/icon"
 import { showToast } from "@opencode-ai/ui/toast"
 import { PromptInput } from "@/components/prompt-input"
 import { QuestionDock } from "@/components/question-dock"
-import { SessionTodoDock } from "@/components/session-todo-dock"
+import { SessionTodoDock, type SessionQueueDock } from "@/components/session-todo-dock"
 import { useGlobalSync } from "@/context/global-sync"
 import { useLanguage } from "@/context/language"
 import { usePrompt } from "@/context/prompt"
@@ -24,6 +24,7 @@ export function SessionPromptDock(props: {
   setPromptDockRef: (el: HTMLDivElement) => void
 }) {
   const params = useParams()
+  const navigate = useNavigate()
   const sdk = useSDK()
   const sync = useSync()
   const globalSync = useGlobalSync()
@@ -39,6 +40,55 @@ export function SessionPromptDock(props: {
     return globalSync.data.session_todo[id] ?? []
   })
 
+  const tasks = createMemo((): QueueTask[] => {
+    const id = params.id
+    if (!id) return []
+    return sync.data.queue[id] ?? []
+  })
+
+  const request = (action: Promise<unknown>) =>
+    action.catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err)
+      showToast({ title: language.t("common.requestFailed"), description: message })
+    })
+
+  const queue = createMemo((): SessionQueueDock | undefined => {
+    const sessionID = params.id
+    if (!sessionID || tasks().length === 0) return
+    return {
+      tasks: tasks(),
+      title: language.t("session.queue.title"),
+      labels: {
+        run: language.t("session.queue.run"),
+        cancel: language.t("session.queue.cancel"),
+        requeue: language.t("session.queue.requeue"),
+        moveUp: language.t("session.queue.moveUp"),
+        moveDown: language.t("session.queue.moveDown"),
+        open: language.t("session.queue.open"),
+        files: (count) => language.t("session.queue.files", { count }),
+        violations: (count) => language.t("session.queue.violations", { count }),
+      },
+      onRun: () => request(sdk.client.session.queueRun({ sessionID }, { throwOnError: true })),
+      onCancel: (task) =>
+        request(sdk.client.session.queueCancel({ sessionID, taskID: task.id }, { throwOnError: true })),
+      onRequeue: (task) =>
+        request(sdk.client.session.queueRequeue({ sessionID, taskID: task.id }, { throwOnError: true })),
+      onMove: (task, offset) => {
+        const order = tasks().map((item) => item.id)
+        const index = order.indexOf(task.id)
+        const target = index + offset
+        if (index === -1 || target < 0 || target >= order.length) return
+        order.splice(index, 1)
+        order.splice(target, 0, task.id)
+        request(sdk.client.session.queueReorder({ sessionID, order }, { throwOnError: true }))
+      },
+      onOpen: (task) => {
+        if (!task.childID) return
+        navigate(`/${params.dir}/session/${task.childID}`)
+      },
+    }
+  })
+
   const questionRequest = createMemo((): QuestionRequest | undefined => {
     const sessionID = params.id
     if (!sessionID) return
@@ -94,11 +144,16 @@ export function SessionPromptDock(props: {
       })
   }
 
+  const items = createMemo(() => todos().length + tasks().length)
+
   const done = createMemo(
-    () => todos().length > 0 && todos().every((todo) => todo.status === "completed" || todo.status === "cancelled"),
+    () =>
+      items() > 0 &&
+      todos().every((todo) => todo.status === "completed" || todo.status === "cancelled") &&
+      tasks().every((task) => task.status === "completed" || task.status === "cancelled"),
   )
 
-  const [dock, setDock] = createSignal(todos().length > 0)
+  const [dock, setDock] = createSignal(items() > 0)
   const [closing, setClosing] = createSignal(false)
   const [opening, setOpening] = createSignal(false)
   let timer: number | undefined
@@ -115,7 +170,7 @@ export function SessionPromptDock(props: {
 
   createEffect(
     on(
-      () => [todos().length, done()] as const,
+      () => [items(), done()] as const,
       ([count, complete], prev) => {
         if (raf) cancelAnimationFrame(raf)
         raf = undefined
@@ -292,6 +347,7 @@ export function SessionPromptDock(props: {
                   title={language.t("session.todo.title")}
                   collapseLabel={language.t("session.todo.collapse")}
                   expandLabel={language.t("session.todo.expand")}
+                  queue={queue()}
                 />
               </div>
             </Show>
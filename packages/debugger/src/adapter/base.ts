@@ -1,12 +1,14 @@
 import type {
   Breakpoint,
+  DataBreakpointAccessType,
+  FunctionBreakpoint,
   SourceBreakpoint,
   StackFrame,
   Variable,
 } from "../dap/types"
 
 export interface LaunchConfig {
-  type: string // "node" | "python"
+  type: string // "node" | "python" | "go"
   program: string
   args?: string[]
   cwd?: string
@@ -15,6 +17,26 @@ export interface LaunchConfig {
   runtimeArgs?: string[]
   pythonPath?: string
   module?: string // python -m module
+  dlvPath?: string
+  mode?: "debug" | "test" | "exec" // go: build main package, build test binary, or run prebuilt binary
+  buildFlags?: string // go: e.g. "-tags=integration -race"
+}
+
+export interface AttachConfig {
+  type: string // "node" | "python" | "go"
+  host?: string // default 127.0.0.1
+  port?: number // node: inspector port (default 9229), python: debugpy --listen port, go: headless dlv port
+  pid?: number // node: open the inspector via SIGUSR1 (plain node only), go: attach Delve to the process
+  cwd?: string
+  dlvPath?: string
+}
+
+export type ExceptionBreakMode = "none" | "uncaught" | "all"
+
+export interface ExceptionInfo {
+  type?: string
+  message?: string
+  stack?: string
 }
 
 export interface StopResult {
@@ -28,14 +50,37 @@ export interface StopResult {
     name?: string
   }
   terminated?: boolean
+  running?: boolean // an attached process hit no breakpoint while we waited
+  exception?: ExceptionInfo // set when paused on a thrown exception
 }
 
+/**
+ * How long continue waits on an attached process that is not paused. The
+ * breakpoint usually fires only once the user exercises the code path (a
+ * request to the dev server), so this is far longer than a step timeout and
+ * ends in a "running" result rather than an error.
+ */
+export const ATTACH_WAIT_TIMEOUT = 300_000
+
+export const RUNNING: StopResult = { reason: "running", running: true }
+
 export interface EvalResult {
   result: string
   type?: string
   variablesReference?: number
 }
 
+export interface OutputInfo {
+  // stdout/stderr: the debuggee's own streams. console: console API calls
+  // and logpoints the adapter sees separately from those streams (a launched
+  // Node process's console output arrives as stdout/stderr instead).
+  // important: messages from the debugger itself.
+  category: "stdout" | "stderr" | "console" | "important"
+  output: string
+  file?: string
+  line?: number
+}
+
 export interface StoppedInfo {
   reason: string
   threadId?: number
@@ -45,18 +90,40 @@ export interface StoppedInfo {
 export interface BreakpointResult {
   id?: number
   verified: boolean
+  file?: string // resolved source, for function breakpoints
   line?: number
   message?: string
 }
 
+/**
+ * A breakpoint on a variable's value rather than a source location. The
+ * variable is named by an expression evaluated in frameId (top frame if
+ * omitted); adapters resolve it to a runtime data ID themselves.
+ */
+export interface DataBreakpoint {
+  name: string
+  frameId?: number
+  accessType?: DataBreakpointAccessType
+  condition?: string
+  hitCondition?: string
+}
+
 export interface DebugAdapter {
   readonly id: string
   start(config: LaunchConfig): Promise<void>
+  attach(config: AttachConfig): Promise<void>
   waitForInitialPause(): Promise<StopResult>
   setBreakpoints(
     file: string,
     breakpoints: SourceBreakpoint[],
   ): Promise<BreakpointResult[]>
+  setExceptionBreakpoints(mode: ExceptionBreakMode): Promise<void>
+  setFunctionBreakpoints(
+    breakpoints: FunctionBreakpoint[],
+  ): Promise<BreakpointResult[]>
+  setDataBreakpoints(
+    breakpoints: DataBreakpoint[],
+  ): Promise<BreakpointResult[]>
   continue(threadId?: number): Promise<StopResult>
   stepOver(threadId?: number): Promise<StopResult>
   stepIn(threadId?: number): Promise<StopResult>
@@ -68,6 +135,11 @@ export interface DebugAdapter {
     maxDepth?: number,
   ): Promise<Variable[]>
   evaluate(expression: string, frameId?: number): Promise<EvalResult>
+  /**
+   * Ends the debug session. Launched programs are terminated; attached
+   * processes are detached from and keep running.
+   */
   disconnect(): Promise<void>
   onStopped(cb: (event: StoppedInfo) => void): void
+  onOutput(cb: (event: OutputInfo) => void): void
 }
@@ -0,0 +1,522 @@
+import { spawn, type ChildProcess } from "child_process"
+import type {
+  Capabilities,
+  FunctionBreakpoint,
+  SourceBreakpoint,
+  StackFrame,
+  Variable,
+} from "../dap/types"
+import {
+  ATTACH_WAIT_TIMEOUT,
+  RUNNING,
+  type AttachConfig,
+  type BreakpointResult,
+  type DataBreakpoint,
+  type DebugAdapter,
+  type EvalResult,
+  type ExceptionBreakMode,
+  type ExceptionInfo,
+  type LaunchConfig,
+  type OutputInfo,
+  type StopResult,
+  type StoppedInfo,
+} from "./base"
+import { DapClient } from "../dap/client"
+
+export const WAIT_TIMEOUT = 30_000
+
+/**
+ * Shared client side of adapters that speak DAP over TCP (debugpy, Delve).
+ * Subclasses start or attach to their debug server and translate exception
+ * modes; everything after the DAP handshake lives here.
+ */
+export abstract class DapAdapter implements DebugAdapter {
+  abstract readonly id: string
+  protected process: ChildProcess | null = null
+  protected client: DapClient | null = null
+  protected stoppedCallbacks: ((event: StoppedInfo) => void)[] = []
+  protected outputCallbacks: ((event: OutputInfo) => void)[] = []
+  protected threadId = 1
+  protected frameIds: number[] = []
+  protected initialPausePromise: Promise<StopResult> | null = null
+  protected attached = false
+  protected capabilities: Capabilities = {}
+  protected paused = false
+
+  abstract start(config: LaunchConfig): Promise<void>
+  abstract attach(config: AttachConfig): Promise<void>
+  abstract setExceptionBreakpoints(mode: ExceptionBreakMode): Promise<void>
+
+  /**
+   * Wait for the initial stopOnEntry pause. Call after start().
+   */
+  async waitForInitialPause(): Promise<StopResult> {
+    if (!this.initialPausePromise) {
+      return { reason: "entry", location: undefined }
+    }
+    const result = await this.initialPausePromise
+    this.initialPausePromise = null
+    return result
+  }
+
+  async setBreakpoints(
+    file: string,
+    breakpoints: SourceBreakpoint[],
+  ): Promise<BreakpointResult[]> {
+    if (!this.client) throw new Error("Not connected")
+
+    const response = await this.client.sendRequest("setBreakpoints", {
+      source: { path: file },
+      breakpoints: breakpoints.map((bp) => ({
+        line: bp.line,
+        column: bp.column,
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+        logMessage: bp.logMessage,
+      })),
+    })
+
+    const body = response.body ?? {}
+    const bps = (body.breakpoints ?? []) as any[]
+    return bps.map((bp: any) => ({
+      id: bp.id,
+      verified: bp.verified ?? false,
+      line: bp.line,
+      message: bp.message,
+    }))
+  }
+
+  async setFunctionBreakpoints(
+    breakpoints: FunctionBreakpoint[],
+  ): Promise<BreakpointResult[]> {
+    if (!this.client) throw new Error("Not connected")
+
+    const response = await this.client.sendRequest("setFunctionBreakpoints", {
+      breakpoints: breakpoints.map((bp) => ({
+        name: bp.name,
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+      })),
+    })
+
+    const body = response.body ?? {}
+    const bps = (body.breakpoints ?? []) as any[]
+    return bps.map((bp: any) => ({
+      id: bp.id,
+      verified: bp.verified ?? false,
+      file: bp.source?.path,
+      line: bp.line,
+      message: bp.message,
+    }))
+  }
+
+  /**
+   * Resolve each variable to a DAP data ID with dataBreakpointInfo, then
+   * replace the adapter's data breakpoints with the resolved set.
+   */
+  async setDataBreakpoints(
+    breakpoints: DataBreakpoint[],
+  ): Promise<BreakpointResult[]> {
+    if (!this.client) throw new Error("Not connected")
+    if (!this.capabilities.supportsDataBreakpoints) {
+      if (breakpoints.length === 0) return []
+      throw new Error(
+        "Data breakpoints are not supported by this debug adapter. Use a conditional breakpoint on the lines that assign the variable instead.",
+      )
+    }
+
+    const resolved: { dataId: string; bp: DataBreakpoint }[] = []
+    const results: (BreakpointResult | null)[] = []
+    for (const bp of breakpoints) {
+      const info = await this.client.sendRequest("dataBreakpointInfo", {
+        name: bp.name,
+        frameId: bp.frameId ?? this.frameIds[0],
+      })
+      const body = info.body ?? {}
+      if (body.dataId === null || body.dataId === undefined) {
+        results.push({
+          verified: false,
+          message:
+            (body.description as string | undefined) ??
+            `Cannot watch "${bp.name}"`,
+        })
+        continue
+      }
+      resolved.push({ dataId: body.dataId as string, bp })
+      results.push(null)
+    }
+
+    const response = await this.client.sendRequest("setDataBreakpoints", {
+      breakpoints: resolved.map(({ dataId, bp }) => ({
+        dataId,
+        accessType: bp.accessType ?? "write",
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+      })),
+    })
+    const bps = ((response.body ?? {}).breakpoints ?? []) as any[]
+
+    // Fill the resolved slots in order, keeping unresolved failures in place
+    let next = 0
+    return results.map((result) => {
+      if (result) return result
+      const bp = bps[next++]
+      return {
+        id: bp?.id,
+        verified: bp?.verified ?? false,
+        message: bp?.message,
+      }
+    })
+  }
+
+  async continue(threadId?: number): Promise<StopResult> {
+    if (!this.client) throw new Error("Not connected")
+    // An attached process is running until it hits a breakpoint, so there is
+    // nothing to resume — just wait for the next stop
+    if (!this.paused) {
+      return this.waitForStop(ATTACH_WAIT_TIMEOUT).catch(() => RUNNING)
+    }
+    // Register handler BEFORE sending continue to avoid race
+    const stopPromise = this.waitForStop()
+    this.paused = false
+    await this.client.sendRequest("continue", {
+      threadId: threadId ?? this.threadId,
+    })
+    return stopPromise
+  }
+
+  async stepOver(threadId?: number): Promise<StopResult> {
+    if (!this.client) throw new Error("Not connected")
+    const stopPromise = this.waitForStop()
+    this.paused = false
+    await this.client.sendRequest("next", {
+      threadId: threadId ?? this.threadId,
+    })
+    return stopPromise
+  }
+
+  async stepIn(threadId?: number): Promise<StopResult> {
+    if (!this.client) throw new Error("Not connected")
+    const stopPromise = this.waitForStop()
+    this.paused = false
+    await this.client.sendRequest("stepIn", {
+      threadId: threadId ?? this.threadId,
+    })
+    return stopPromise
+  }
+
+  async stepOut(threadId?: number): Promise<StopResult> {
+    if (!this.client) throw new Error("Not connected")
+    const stopPromise = this.waitForStop()
+    this.paused = false
+    await this.client.sendRequest("stepOut", {
+      threadId: threadId ?? this.threadId,
+    })
+    return stopPromise
+  }
+
+  async getCallStack(threadId?: number): Promise<StackFrame[]> {
+    if (!this.client) throw new Error("Not connected")
+
+    const response = await this.client.sendRequest("stackTrace", {
+      threadId: threadId ?? this.threadId,
+      startFrame: 0,
+      levels: 50,
+    })
+
+    const body = response.body ?? {}
+    const frames = (body.stackFrames ?? []) as any[]
+    this.frameIds = frames.map((f: any) => f.id as number)
+
+    return frames.map((f: any) => ({
+      id: f.id,
+      name: f.name,
+      source: f.source
+        ? { path: f.source.path, name: f.source.name }
+        : undefined,
+      line: f.line,
+      column: f.column,
+    }))
+  }
+
+  async getVariables(
+    frameId?: number,
+    scope?: string,
+    maxDepth?: number,
+  ): Promise<Variable[]> {
+    if (!this.client) throw new Error("Not connected")
+
+    const targetFrameId = frameId ?? this.frameIds[0]
+    if (targetFrameId === undefined) return []
+
+    const scopesResponse = await this.client.sendRequest("scopes", {
+      frameId: targetFrameId,
+    })
+    const scopes = ((scopesResponse.body ?? {}).scopes ?? []) as any[]
+
+    // debugpy names its scope "Locals"; Delve reports arguments and locals
+    // together under "Locals" as well
+    const targetScopes = scope
+      ? scopes.filter(
+          (s: any) => s.name.toLowerCase() === scope.toLowerCase(),
+        )
+      : scopes.filter((s: any) => s.name.toLowerCase().includes("local"))
+
+    const variables: Variable[] = []
+    for (const s of targetScopes.length > 0
+      ? targetScopes
+      : scopes.slice(0, 1)) {
+      variables.push(
+        ...(await this.getChildren(s.variablesReference, maxDepth ?? 1, 0)),
+      )
+    }
+
+    return variables
+  }
+
+  async evaluate(expression: string, frameId?: number): Promise<EvalResult> {
+    if (!this.client) throw new Error("Not connected")
+
+    const targetFrameId = frameId ?? this.frameIds[0]
+    const response = await this.client.sendRequest("evaluate", {
+      expression,
+      frameId: targetFrameId,
+      context: "repl",
+    })
+
+    const body = response.body ?? {}
+    return {
+      result: (body.result as string) ?? "",
+      type: body.type as string | undefined,
+      variablesReference: body.variablesReference as number | undefined,
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      try {
+        await this.client.sendRequest("disconnect", {
+          terminateDebuggee: !this.attached,
+        })
+      } catch {
+        // Ignore errors during disconnect
+      }
+      await this.client.disconnect()
+      this.client = null
+    }
+    if (this.process) {
+      this.process.kill()
+      this.process = null
+    }
+  }
+
+  onStopped(cb: (event: StoppedInfo) => void): void {
+    this.stoppedCallbacks.push(cb)
+  }
+
+  onOutput(cb: (event: OutputInfo) => void): void {
+    this.outputCallbacks.push(cb)
+  }
+
+  // --- Helpers for subclasses ---
+
+  /**
+   * Spawn the debug server (or the debuggee running under it) and forward
+   * its streams as program output.
+   */
+  protected spawnProcess(
+    command: string,
+    args: string[],
+    config: Pick<LaunchConfig, "cwd" | "env">,
+  ): void {
+    this.process = spawn(command, args, {
+      cwd: config.cwd,
+      env: { ...process.env, ...config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    })
+
+    this.process.on("error", (err) => {
+      console.error(`[${this.id}-adapter] Process error: ${err.message}`)
+    })
+
+    this.process.stdout?.on("data", (data: Buffer) =>
+      this.emitOutput({ category: "stdout", output: data.toString() }),
+    )
+    this.process.stderr?.on("data", (data: Buffer) =>
+      this.emitOutput({ category: "stderr", output: data.toString() }),
+    )
+  }
+
+  protected async connect(host: string, port: number): Promise<void> {
+    this.client = new DapClient(host, port)
+    await this.client.connect()
+
+    // Listen for stopped events
+    this.client.on("stopped", (body) => {
+      this.threadId = (body.threadId as number) ?? 1
+      this.paused = true
+      const info: StoppedInfo = {
+        reason: (body.reason as string) ?? "breakpoint",
+        threadId: this.threadId,
+        description: body.description as string | undefined,
+      }
+      for (const cb of this.stoppedCallbacks) {
+        cb(info)
+      }
+    })
+
+    // Output events carry logpoint messages and, when the adapter redirects
+    // them, the debuggee's own streams
+    this.client.on("output", (body) => {
+      const category = (body.category as string | undefined) ?? "console"
+      if (category === "telemetry") return
+      this.emitOutput({
+        category:
+          category === "stdout" ||
+          category === "stderr" ||
+          category === "important"
+            ? category
+            : "console",
+        output: (body.output as string) ?? "",
+        file: (body.source as any)?.path,
+        line: body.line as number | undefined,
+      })
+    })
+  }
+
+  protected emitOutput(info: OutputInfo): void {
+    for (const cb of this.outputCallbacks) {
+      cb(info)
+    }
+  }
+
+  protected async initialize(): Promise<void> {
+    const response = await this.client!.sendRequest("initialize", {
+      clientID: "opencode-debugger",
+      clientName: "OpenCode Debugger",
+      adapterID: this.id,
+      pathFormat: "path",
+      linesStartAt1: true,
+      columnsStartAt1: true,
+      supportsRunInTerminalRequest: false,
+    })
+    this.capabilities = (response.body ?? {}) as Capabilities
+  }
+
+  /**
+   * Fetch the children of a variables reference. Nested references are
+   * expanded inline as `parent.child` entries up to maxDepth.
+   */
+  protected async getChildren(
+    variablesReference: number,
+    maxDepth: number,
+    currentDepth: number,
+    prefix = "",
+  ): Promise<Variable[]> {
+    if (!this.client) throw new Error("Not connected")
+
+    const response = await this.client.sendRequest("variables", {
+      variablesReference,
+    })
+    const vars = ((response.body ?? {}).variables ?? []) as any[]
+
+    const variables: Variable[] = []
+    for (const v of vars) {
+      const name = prefix ? `${prefix}.${v.name}` : (v.name as string)
+      variables.push({
+        name,
+        value: v.value,
+        type: v.type,
+        variablesReference: v.variablesReference ?? 0,
+      })
+      if (v.variablesReference && currentDepth + 1 < maxDepth) {
+        variables.push(
+          ...(await this.getChildren(
+            v.variablesReference,
+            maxDepth,
+            currentDepth + 1,
+            name,
+          )),
+        )
+      }
+    }
+    return variables
+  }
+
+  protected async getExceptionInfo(
+    threadId?: number,
+  ): Promise<ExceptionInfo | undefined> {
+    if (!this.client) return undefined
+    try {
+      const response = await this.client.sendRequest("exceptionInfo", {
+        threadId: threadId ?? this.threadId,
+      })
+      const body = response.body ?? {}
+      const details = (body.details ?? {}) as any
+      return {
+        type: details.typeName ?? (body.exceptionId as string | undefined),
+        message: details.message ?? (body.description as string | undefined),
+        stack: details.stackTrace,
+      }
+    } catch {
+      return undefined
+    }
+  }
+
+  protected waitForStop(timeout = WAIT_TIMEOUT): Promise<StopResult> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        cleanup()
+        reject(new Error("Timed out waiting for debugger to stop"))
+      }, timeout)
+
+      const cleanup = () => {
+        clearTimeout(timer)
+        const idx = this.stoppedCallbacks.indexOf(handler)
+        if (idx >= 0) this.stoppedCallbacks.splice(idx, 1)
+        this.client?.off("terminated", terminatedHandler)
+        this.process?.removeListener("exit", exitHandler)
+      }
+
+      const handler = async (info: StoppedInfo) => {
+        cleanup()
+        try {
+          const frames = await this.getCallStack(info.threadId)
+          const topFrame = frames[0]
+          resolve({
+            reason: info.reason,
+            threadId: info.threadId,
+            location: topFrame
+              ? {
+                  file: topFrame.source?.path,
+                  line: topFrame.line,
+                  column: topFrame.column,
+                  name: topFrame.name,
+                }
+              : undefined,
+            exception:
+              info.reason === "exception"
+                ? await this.getExceptionInfo(info.threadId)
+                : undefined,
+          })
+        } catch {
+          resolve({ reason: info.reason, threadId: info.threadId })
+        }
+      }
+
+      const terminatedHandler = () => {
+        cleanup()
+        resolve({ reason: "terminated", terminated: true })
+      }
+
+      const exitHandler = () => {
+        cleanup()
+        resolve({ reason: "terminated", terminated: true })
+      }
+
+      this.stoppedCallbacks.push(handler)
+      this.client?.on("terminated", terminatedHandler)
+      this.process?.once("exit", exitHandler)
+    })
+  }
+}
@@ -0,0 +1,115 @@
+import { execSync } from "child_process"
+import path from "path"
+import type {
+  AttachConfig,
+  ExceptionBreakMode,
+  LaunchConfig,
+} from "./base"
+import { DapAdapter } from "./dap"
+import { findFreePort, waitForPort } from "../util/port"
+
+// Delve compiles the target before it can pause, which takes far longer than
+// starting an interpreter, so the initial pause gets a more generous timeout.
+const BUILD_TIMEOUT = 120_000
+
+/**
+ * Go debug adapter using Delve's native DAP server (`dlv dap`) over TCP.
+ */
+export class GoAdapter extends DapAdapter {
+  readonly id = "go"
+
+  async start(config: LaunchConfig): Promise<void> {
+    const port = await this.spawnDelve(config)
+    await this.connect("127.0.0.1", port)
+
+    // Set up initial pause promise BEFORE sending configurationDone
+    // so we capture the stopOnEntry pause
+    this.initialPausePromise = this.waitForStop(BUILD_TIMEOUT)
+
+    await this.initialize()
+
+    await this.client!.sendRequest("launch", {
+      request: "launch",
+      mode: config.mode ?? "debug",
+      // Delve builds packages by directory, so a go.mod points at its module root
+      program:
+        path.basename(config.program) === "go.mod"
+          ? path.dirname(config.program)
+          : config.program,
+      args: config.args ?? [],
+      cwd: config.cwd ?? process.cwd(),
+      env: config.env,
+      buildFlags: config.buildFlags,
+      stopOnEntry: true,
+    })
+
+    await this.client!.sendRequest("configurationDone", {})
+  }
+
+  /**
+   * Attach to a running Go process. With a pid, a local `dlv dap` server
+   * attaches to the process; with a port, we connect to an existing headless
+   * Delve server (`dlv --headless --listen=:port`). The process keeps running;
+   * nothing is paused until a breakpoint is hit.
+   */
+  async attach(config: AttachConfig): Promise<void> {
+    if (config.pid === undefined && config.port === undefined) {
+      throw new Error(
+        "Attaching to a Go process requires either a pid or a headless Delve port.",
+      )
+    }
+
+    if (config.pid !== undefined) {
+      const port = await this.spawnDelve(config)
+      await this.connect("127.0.0.1", port)
+    } else {
+      await this.connect(config.host ?? "127.0.0.1", config.port!)
+    }
+    this.attached = true
+    await this.initialize()
+
+    await this.client!.sendRequest("attach", {
+      request: "attach",
+      mode: config.pid !== undefined ? "local" : "remote",
+      processId: config.pid,
+      cwd: config.cwd ?? process.cwd(),
+      stopOnEntry: false,
+    })
+    await this.client!.sendRequest("configurationDone", {})
+  }
+
+  async setExceptionBreakpoints(mode: ExceptionBreakMode): Promise<void> {
+    if (!this.client) throw new Error("Not connected")
+    // Delve has no exception filters: it always stops on unrecovered panics
+    // and fatal errors, and cannot break on panics that are later recovered
+    if (mode !== "uncaught") {
+      throw new Error(
+        `Go only supports pausing on uncaught panics (mode "uncaught"), which Delve always does. Mode "${mode}" is not available.`,
+      )
+    }
+  }
+
+  // --- Private helpers ---
+
+  /**
+   * Start a `dlv dap` server on a free port and return the port.
+   */
+  private async spawnDelve(
+    config: Pick<LaunchConfig, "cwd" | "env" | "dlvPath">,
+  ): Promise<number> {
+    const dlvPath = config.dlvPath ?? "dlv"
+    try {
+      execSync(`${dlvPath} version`, { stdio: "pipe", timeout: 5000 })
+    } catch {
+      throw new Error(
+        "Delve is not installed. Install it with: go install github.com/go-delve/delve/cmd/dlv@latest",
+      )
+    }
+
+    const port = await findFreePort()
+    this.spawnProcess(dlvPath, ["dap", `--listen=127.0.0.1:${port}`], config)
+
+    await waitForPort(port)
+    return port
+  }
+}
@@ -1,12 +1,24 @@
-import { spawn, type ChildProcess } from "child_process"
-import type { SourceBreakpoint, StackFrame, Variable } from "../dap/types"
+import { execSync, spawn, type ChildProcess } from "child_process"
 import type {
-  BreakpointResult,
-  DebugAdapter,
-  EvalResult,
-  LaunchConfig,
-  StopResult,
-  StoppedInfo,
+  FunctionBreakpoint,
+  SourceBreakpoint,
+  StackFrame,
+  Variable,
+} from "../dap/types"
+import {
+  ATTACH_WAIT_TIMEOUT,
+  RUNNING,
+  type AttachConfig,
+  type BreakpointResult,
+  type DataBreakpoint,
+  type DebugAdapter,
+  type EvalResult,
+  type ExceptionBreakMode,
+  type ExceptionInfo,
+  type LaunchConfig,
+  type OutputInfo,
+  type StopResult,
+  type StoppedInfo,
 } from "./base"
 import { findFreePort } from "../util/port"
 
@@ -24,6 +36,7 @@ interface CdpEvent {
 type CdpMessage = CdpResponse | CdpEvent
 
 const WAIT_TIMEOUT = 30_000
+const DEFAULT_INSPECTOR_PORT = 9229
 
 /**
  * Node.js debug adapter using Chrome DevTools Protocol (CDP) over WebSocket.
@@ -38,13 +51,18 @@ export class NodeAdapter implements DebugAdapter {
     { resolve: (r: any) => void; reject: (e: Error) => void }
   >()
   private stoppedCallbacks: ((event: StoppedInfo) => void)[] = []
+  private outputCallbacks: ((event: OutputInfo) => void)[] = []
   private scripts = new Map<string, string>() // scriptId -> file path
   private fileToScript = new Map<string, string>() // file path -> scriptId
   private pausedFrames: any[] = []
   private pausedReason = ""
+  private pausedException: ExceptionInfo | undefined = undefined
   private pausedThreadId = 1
   private breakpointIds = new Map<string, string[]>() // file -> breakpointIds
+  private functionBreakpointIds: string[] = []
+  private hitCounters = 0
   private initialPausePromise: Promise<StopResult> | null = null
+  private attached = false
 
   async start(config: LaunchConfig): Promise<void> {
     const port = await findFreePort()
@@ -70,6 +88,13 @@ export class NodeAdapter implements DebugAdapter {
       console.error(`[node-adapter] Process error: ${err.message}`)
     })
 
+    this.process.stdout?.on("data", (data: Buffer) =>
+      this.emitOutput({ category: "stdout", output: data.toString() }),
+    )
+    this.process.stderr?.on("data", (data: Buffer) =>
+      this.emitOutput({ category: "stderr", output: data.toString() }),
+    )
+
     // Wait for the inspector to be ready by polling the /json endpoint
     const wsUrl = await this.waitForDebugger(port)
     await this.connectWebSocket(wsUrl)
@@ -79,6 +104,35 @@ export class NodeAdapter implements DebugAdapter {
     await this.cdpSend("Runtime.enable", {})
   }
 
+  /**
+   * Attach to an already running Node.js process. With a pid, the inspector
+   * is opened by sending SIGUSR1, which Node answers by listening on the
+   * default inspector port. The process keeps running; nothing is paused
+   * until a breakpoint is hit.
+   */
+  async attach(config: AttachConfig): Promise<void> {
+    const host = config.host ?? "127.0.0.1"
+    const port = config.port ?? DEFAULT_INSPECTOR_PORT
+
+    if (config.pid !== undefined) {
+      checkSignalable(config.pid)
+      try {
+        process.kill(config.pid, "SIGUSR1")
+      } catch (err: any) {
+        throw new Error(
+          `Failed to signal process ${config.pid} to open its inspector: ${err.message}`,
+        )
+      }
+    }
+
+    const wsUrl = await this.waitForDebugger(port, host)
+    await this.connectWebSocket(wsUrl)
+    this.attached = true
+
+    await this.cdpSend("Debugger.enable", {})
+    await this.cdpSend("Runtime.enable", {})
+  }
+
   /**
    * Wait for the initial --inspect-brk pause. Call after start() to get
    * the entry-point location.
@@ -109,11 +163,14 @@ export class NodeAdapter implements DebugAdapter {
 
     for (const bp of breakpoints) {
       try {
+        const condition = this.breakCondition(bp)
         const response = await this.cdpSend("Debugger.setBreakpointByUrl", {
           lineNumber: bp.line - 1, // CDP uses 0-based lines
           url: this.pathToFileUrl(file),
           columnNumber: bp.column ? bp.column - 1 : undefined,
-          condition: bp.condition,
+          condition: bp.logMessage
+            ? this.logpointCondition(bp.logMessage, condition)
+            : condition,
         })
         const breakpointId = response.breakpointId as string
         const locations = response.locations as any[]
@@ -139,7 +196,91 @@ export class NodeAdapter implements DebugAdapter {
     return results
   }
 
+  async setExceptionBreakpoints(mode: ExceptionBreakMode): Promise<void> {
+    await this.cdpSend("Debugger.setPauseOnExceptions", { state: mode })
+  }
+
+  /**
+   * Break on calls to a named function. Names that evaluate to a function
+   * (globals, or locals while paused) use setBreakpointOnFunctionCall;
+   * otherwise the definition is located in the loaded scripts and a
+   * breakpoint is set on its line with setBreakpointByUrl.
+   */
+  async setFunctionBreakpoints(
+    breakpoints: FunctionBreakpoint[],
+  ): Promise<BreakpointResult[]> {
+    for (const breakpointId of this.functionBreakpointIds) {
+      await this.cdpSend("Debugger.removeBreakpoint", { breakpointId })
+    }
+    this.functionBreakpointIds = []
+
+    const results: BreakpointResult[] = []
+    for (const bp of breakpoints) {
+      try {
+        const condition = this.breakCondition(bp)
+        const objectId = await this.evaluateFunction(bp.name)
+        if (objectId) {
+          const response = await this.cdpSend(
+            "Debugger.setBreakpointOnFunctionCall",
+            { objectId, condition },
+          )
+          this.functionBreakpointIds.push(response.breakpointId as string)
+          const location = await this.functionLocation(objectId)
+          results.push({
+            id: results.length,
+            verified: true,
+            file: location?.file,
+            line: location?.line,
+          })
+          continue
+        }
+
+        const definition = await this.findFunctionDefinition(bp.name)
+        if (!definition) {
+          results.push({
+            verified: false,
+            message: `Function "${bp.name}" not found in loaded scripts`,
+          })
+          continue
+        }
+        const response = await this.cdpSend("Debugger.setBreakpointByUrl", {
+          lineNumber: definition.line - 1,
+          url: this.pathToFileUrl(definition.file),
+          condition,
+        })
+        const locations = response.locations as any[]
+        this.functionBreakpointIds.push(response.breakpointId as string)
+        results.push({
+          id: results.length,
+          verified: locations.length > 0,
+          file: definition.file,
+          line:
+            locations.length > 0
+              ? (locations[0].lineNumber as number) + 1
+              : definition.line,
+        })
+      } catch (err: any) {
+        results.push({ verified: false, message: err.message })
+      }
+    }
+    return results
+  }
+
+  async setDataBreakpoints(
+    breakpoints: DataBreakpoint[],
+  ): Promise<BreakpointResult[]> {
+    if (breakpoints.length === 0) return []
+    throw new Error(
+      "Data breakpoints are not supported by the Node.js inspector. Use a conditional breakpoint on the lines that assign the variable instead.",
+    )
+  }
+
   async continue(_threadId?: number): Promise<StopResult> {
+    // An attached process is running until it hits a breakpoint, so there is
+    // nothing to resume — just wait for the next pause
+    if (this.pausedFrames.length === 0) {
+      return this.waitForPause(ATTACH_WAIT_TIMEOUT).catch(() => RUNNING)
+    }
     // Register handler BEFORE sending resume to avoid race
     const pausePromise = this.waitForPause()
     await this.cdpSend("Debugger.resume", {})
@@ -224,6 +365,21 @@ export class NodeAdapter implements DebugAdapter {
 
   async disconnect(): Promise<void> {
     if (this.ws) {
+      if (this.attached) {
+        // Leave the process as we found it: no breakpoints, not paused
+        try {
+          for (const ids of this.breakpointIds.values()) {
+            for (const breakpointId of ids) {
+              await this.cdpSend("Debugger.removeBreakpoint", { breakpointId })
+            }
+          }
+          if (this.pausedFrames.length > 0) {
+            await this.cdpSend("Debugger.resume", {})
+          }
+        } catch {
+          // Ignore errors during detach
+        }
+      }
       this.ws.close()
       this.ws = null
     }
@@ -237,16 +393,21 @@ export class NodeAdapter implements DebugAdapter {
     this.stoppedCallbacks.push(cb)
   }
 
+  onOutput(cb: (event: OutputInfo) => void): void {
+    this.outputCallbacks.push(cb)
+  }
+
   // --- Private helpers ---
 
   private async waitForDebugger(
     port: number,
+    host = "127.0.0.1",
     timeout = 10000,
   ): Promise<string> {
     const start = Date.now()
     while (Date.now() - start < timeout) {
       try {
-        const response = await fetch(`http://127.0.0.1:${port}/json`)
+        const response = await fetch(`http://${host}:${port}/json`)
         const targets = (await response.json()) as any[]
         const target = targets.find((t: any) => t.webSocketDebuggerUrl)
         if (target) return target.webSocketDebuggerUrl as string
@@ -255,7 +416,9 @@ export class NodeAdapter implements DebugAdapter {
       }
       await new Promise((r) => setTimeout(r, 100))
     }
-    throw new Error(`Timed out waiting for Node.js inspector on port ${port}`)
+    throw new Error(
+      `Timed out waiting for Node.js inspector on ${host}:${port}`,
+    )
   }
 
   private async connectWebSocket(url: string): Promise<void> {
@@ -316,6 +479,8 @@ export class NodeAdapter implements DebugAdapter {
         this.onScriptParsed(event.params ?? {})
       } else if (event.method === "Debugger.paused") {
         this.onPaused(event.params ?? {})
+      } else if (event.method === "Runtime.consoleAPICalled") {
+        this.onConsoleAPICalled(event.params ?? {})
       } else if (event.method === "Debugger.resumed") {
         this.pausedFrames = []
       }
@@ -335,6 +500,12 @@ export class NodeAdapter implements DebugAdapter {
   private onPaused(params: Record<string, any>): void {
     this.pausedFrames = params.callFrames ?? []
     this.pausedReason = (params.reason as string) ?? "breakpoint"
+    // "promiseRejection" is how CDP reports an unhandled rejected promise
+    this.pausedException =
+      this.pausedReason === "exception" ||
+      this.pausedReason === "promiseRejection"
+        ? this.formatException(params.data)
+        : undefined
     const info: StoppedInfo = {
       reason: this.pausedReason,
       threadId: this.pausedThreadId,
@@ -344,12 +515,84 @@ export class NodeAdapter implements DebugAdapter {
     }
   }
 
-  private waitForPause(): Promise<StopResult> {
+  /**
+   * A launched process's console calls (logpoints included) already reach
+   * us through its stdout/stderr pipes, so console events are only recorded
+   * for attached processes, whose streams we cannot see.
+   */
+  private onConsoleAPICalled(params: Record<string, any>): void {
+    if (this.process) return
+    const args = (params.args ?? []) as any[]
+    const text = args
+      .map((arg: any) =>
+        arg.type === "string" ? (arg.value as string) : this.formatValue(arg),
+      )
+      .join(" ")
+    const frame = params.stackTrace?.callFrames?.[0]
+    this.emitOutput({
+      category: "console",
+      output: `${text}\n`,
+      file:
+        frame?.url && (frame.url as string).startsWith("file://")
+          ? this.fileUrlToPath(frame.url)
+          : undefined,
+      line: frame ? (frame.lineNumber as number) + 1 : undefined,
+    })
+  }
+
+  private emitOutput(info: OutputInfo): void {
+    for (const cb of this.outputCallbacks) {
+      cb(info)
+    }
+  }
+
+  /**
+   * CDP has no hit counts either, so a hit condition keeps its count in the
+   * debuggee: the condition bumps a per-breakpoint counter whenever the
+   * user's condition holds and compares it against the hit condition.
+   * Re-setting breakpoints allocates fresh counters, restarting the count.
+   */
+  private breakCondition(bp: {
+    condition?: string
+    hitCondition?: string
+  }): string | undefined {
+    if (!bp.hitCondition) return bp.condition
+    const match = /^(>=|<=|==|>|<|%)?\s*(\d+)$/.exec(bp.hitCondition.trim())
+    if (!match) {
+      throw new Error(
+        `Invalid hit condition "${bp.hitCondition}". Use a count such as "5", ">= 5" or "% 3".`,
+      )
+    }
+    const [, op = "==", count] = match
+    const key = JSON.stringify(`bp${this.hitCounters++}`)
+    const hits = `(globalThis.__debuggerHits ??= {})[${key}] = (globalThis.__debuggerHits[${key}] ?? 0) + 1`
+    const test =
+      op === "%"
+        ? `(${hits}) % ${count} === 0`
+        : `(${hits}) ${op === "==" ? "===" : op} ${count}`
+    return bp.condition ? `(${bp.condition}) && ${test}` : test
+  }
+
+  /**
+   * CDP has no logpoints, so a logpoint becomes a condition that logs the
+   * message and evaluates to false. `{expr}` placeholders are interpolated
+   * the same way DAP logpoints are.
+   */
+  private logpointCondition(logMessage: string, condition?: string): string {
+    const template = logMessage
+      .replace(/[`\\]/g, "\\$&")
+      .replace(/\$\{/g, "\\${")
+      .replace(/(?<!\$)\{([^}]+)\}/g, "${$1}")
+    const log = `(console.log(\`${template}\`), false)`
+    return condition ? `(${condition}) && ${log}` : log
+  }
+
+  private waitForPause(timeout = WAIT_TIMEOUT): Promise<StopResult> {
     return new Promise((resolve, reject) => {
       const timer = setTimeout(() => {
         cleanup()
         reject(new Error("Timed out waiting for debugger to pause"))
-      }, WAIT_TIMEOUT)
+      }, timeout)
 
       const cleanup = () => {
         clearTimeout(timer)
@@ -375,6 +618,7 @@ export class NodeAdapter implements DebugAdapter {
                 name: frame.functionName || "(anonymous)",
               }
             : undefined,
+          exception: this.pausedException,
         })
       }
 
@@ -388,6 +632,80 @@ export class NodeAdapter implements DebugAdapter {
     })
   }
 
+  private async evaluateFunction(name: string): Promise<string | undefined> {
+    const frame = this.pausedFrames[0]
+    try {
+      const response = frame
+        ? await this.cdpSend("Debugger.evaluateOnCallFrame", {
+            callFrameId: frame.callFrameId,
+            expression: name,
+            silent: true,
+          })
+        : await this.cdpSend("Runtime.evaluate", {
+            expression: name,
+            silent: true,
+          })
+      const result = response.result
+      if (response.exceptionDetails || result?.type !== "function") {
+        return undefined
+      }
+      return result.objectId as string
+    } catch {
+      return undefined
+    }
+  }
+
+  private async functionLocation(
+    objectId: string,
+  ): Promise<{ file?: string; line: number } | undefined> {
+    const response = await this.cdpSend("Runtime.getProperties", {
+      objectId,
+      ownProperties: true,
+    })
+    const internal = (response.internalProperties ?? []) as any[]
+    const location = internal.find(
+      (p: any) => p.name === "[[FunctionLocation]]",
+    )?.value?.value
+    if (!location) return undefined
+    return {
+      file: this.scriptIdToPath(location.scriptId),
+      line: (location.lineNumber as number) + 1,
+    }
+  }
+
+  /**
+   * Search the sources of loaded user scripts for a function, method or
+   * arrow-function assignment named `name` (the last segment of a dotted
+   * name like `UserService.create`).
+   */
+  private async findFunctionDefinition(
+    name: string,
+  ): Promise<{ file: string; line: number } | undefined> {
+    const short = name.split(".").pop() ?? name
+    const id = short.replace(/[$]/g, "\\$")
+    const pattern = new RegExp(
+      [
+        `function\\s*\\*?\\s*${id}\\s*\\(`,
+        `(?:^|[^\\w$.])${id}\\s*[:=]\\s*(?:async\\s*)?(?:function\\b|\\([^)]*\\)\\s*=>|[\\w$]+\\s*=>)`,
+        `^\\s*(?:(?:public|private|protected|static|async|get|set)\\s+)*\\*?${id}\\s*\\([^)]*\\)\\s*(?::[^{]+)?\\{`,
+      ].join("|"),
+      "m",
+    )
+
+    for (const [file, scriptId] of this.fileToScript) {
+      if (file.includes("/node_modules/")) continue
+      const response = await this.cdpSend("Debugger.getScriptSource", {
+        scriptId,
+      })
+      const source = (response.scriptSource as string) ?? ""
+      const match = pattern.exec(source)
+      if (!match) continue
+      const offset = match.index + match[0].search(/\S/)
+      return { file, line: source.slice(0, offset).split("\n").length }
+    }
+    return undefined
+  }
+
   private async getProperties(
     objectId: string,
     maxDepth: number,
@@ -450,6 +768,28 @@ export class NodeAdapter implements DebugAdapter {
     return preview.description ?? preview.type
   }
 
+  /**
+   * Split a thrown value's description ("TypeError: msg\n    at ...") into
+   * type, message and stack. Non-Error throws only carry a value.
+   */
+  private formatException(data: any): ExceptionInfo | undefined {
+    if (!data) return undefined
+    const description =
+      data.subtype === "error" && data.description
+        ? (data.description as string)
+        : this.formatValue(data)
+    const type = (data.className as string | undefined) ?? data.type
+    const [firstLine, ...rest] = description.split("\n")
+    const prefix = `${type}: `
+    return {
+      type,
+      message: firstLine.startsWith(prefix)
+        ? firstLine.slice(prefix.length)
+        : firstLine,
+      stack: rest.length > 0 ? description : undefined,
+    }
+  }
+
   private formatEvalResult(result: any): EvalResult {
     return {
       result: this.formatValue(result),
@@ -472,3 +812,39 @@ export class NodeAdapter implements DebugAdapter {
     return url.replace(/^file:\/\//, "")
   }
 }
+
+/**
+ * Only plain Node opens its inspector on SIGUSR1. Bun has no such handler
+ * and exits on the signal, and under `node --watch` the pid belongs to the
+ * watcher rather than the program, so both must be attached by port.
+ */
+function checkSignalable(pid: number): void {
+  let command: string
+  try {
+    command = execSync(`ps -o args= -p ${pid}`, {
+      stdio: "pipe",
+      timeout: 5000,
+    })
+      .toString()
+      .trim()
+  } catch {
+    throw new Error(`No process with pid ${pid} is running.`)
+  }
+  const [executable = "", ...args] = command.split(/\s+/)
+  const name = executable.split("/").pop() ?? ""
+  if (name.startsWith("bun")) {
+    throw new Error(
+      `Process ${pid} is running under Bun, which cannot open an inspector on SIGUSR1 (the signal would kill it). Restart it with \`bun --inspect=127.0.0.1:<port> ...\` and attach with that port instead.`,
+    )
+  }
+  if (!name.startsWith("node")) {
+    throw new Error(
+      `Process ${pid} (${name}) is not a Node.js process. Attaching by pid only works for plain \`node\`; start the program with \`--inspect=<port>\` and attach with that port instead.`,
+    )
+  }
+  if (args.some((arg) => arg === "--watch" || arg.startsWith("--watch-"))) {
+    throw new Error(
+      `Process ${pid} is a \`node --watch\` supervisor, not the program it restarts. Start it with \`node --inspect=<port> --watch ...\` and attach with that port instead.`,
+    )
+  }
+}
@@ -1,4 +1,7 @@
+import { existsSync, statSync } from "fs"
+import path from "path"
 import type { DebugAdapter } from "./base"
+import { GoAdapter } from "./go"
 import { NodeAdapter } from "./node"
 import { PythonAdapter } from "./python"
 
@@ -7,6 +10,7 @@ type AdapterFactory = () => DebugAdapter
 const factories = new Map<string, AdapterFactory>([
   ["node", () => new NodeAdapter()],
   ["python", () => new PythonAdapter()],
+  ["go", () => new GoAdapter()],
 ])
 
 export function createAdapter(type: string): DebugAdapter {
@@ -20,10 +24,12 @@ export function createAdapter(type: string): DebugAdapter {
 }
 
 /**
- * Auto-detect adapter type from file extension.
+ * Auto-detect adapter type from file extension, or from a go.mod for Go
+ * package directories.
  */
 export function detectType(program: string): string {
   if (program.endsWith(".py")) return "python"
+  if (program.endsWith(".go") || isGoPackage(program)) return "go"
   if (
     program.endsWith(".js") ||
     program.endsWith(".ts") ||
@@ -35,6 +41,18 @@ export function detectType(program: string): string {
     return "node"
   }
   throw new Error(
-    `Cannot auto-detect debug type for "${program}". Specify type explicitly ("node" or "python").`,
+    `Cannot auto-detect debug type for "${program}". Specify type explicitly ("node", "python" or "go").`,
   )
 }
+
+function isGoPackage(program: string): boolean {
+  if (path.basename(program) === "go.mod") return true
+  try {
+    return (
+      statSync(program).isDirectory() &&
+      existsSync(path.join(program, "go.mod"))
+    )
+  } catch {
+    return false
+  }
+}
@@ -50,6 +50,7 @@ export interface Capabilities {
   supportTerminateDebuggee?: boolean
   supportsDelayedStackTraceLoading?: boolean
   supportsLoadedSourcesRequest?: boolean
+  supportsDataBreakpoints?: boolean
 }
 
 export interface Source {
@@ -66,6 +67,14 @@ export interface SourceBreakpoint {
   logMessage?: string
 }
 
+export interface FunctionBreakpoint {
+  name: string
+  condition?: string
+  hitCondition?: string
+}
+
+export type DataBreakpointAccessType = "read" | "write" | "readWrite"
+
 export interface Breakpoint {
   id?: number
   verified: boolean
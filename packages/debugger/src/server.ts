@@ -3,6 +3,7 @@ import { registerBreakpointTools } from "./tools/breakpoints"
 import { registerSessionTools } from "./tools/session"
 import { registerExecutionTools } from "./tools/execution"
 import { registerInspectionTools } from "./tools/inspection"
+import { registerTraceTools } from "./tools/trace"
 
 export function createServer(): McpServer {
   const server = new McpServer({
@@ -14,6 +15,7 @@ export function createServer(): McpServer {
   registerSessionTools(server)
   registerExecutionTools(server)
   registerInspectionTools(server)
+  registerTraceTools(server)
 
   return server
 }
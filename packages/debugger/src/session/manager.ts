@@ -1,35 +1,78 @@
-import type { LaunchConfig } from "../adapter/base"
+import type { AttachConfig, LaunchConfig } from "../adapter/base"
 import { createAdapter, detectType } from "../adapter/registry"
+import { appendOutput } from "./output"
 import { createSessionState, type SessionState } from "./state"
+import { createTrace } from "./trace"
 
-let activeSession: SessionState | null = null
+export interface SessionOptions {
+  traceDepth?: number // depth of the variable snapshot recorded at each stop
+}
+
+// Sessions in start order. Tools that omit a session ID address the most
+// recently started session that is still running.
+const sessions = new Map<string, SessionState>()
 let sessionCounter = 0
 
-export function active(): SessionState | null {
-  return activeSession
+export function active(sessionId?: string): SessionState | null {
+  if (sessionId) return sessions.get(sessionId) ?? null
+  return [...sessions.values()].at(-1) ?? null
 }
 
-export function requireActive(): SessionState {
-  if (!activeSession) {
-    throw new Error("No active debug session. Use start_debug_session first.")
+export function requireActive(sessionId?: string): SessionState {
+  const session = active(sessionId)
+  if (session) return session
+  if (sessionId) {
+    const ids = [...sessions.keys()]
+    throw new Error(
+      `No debug session "${sessionId}". Active sessions: ${ids.length > 0 ? ids.join(", ") : "none"}`,
+    )
   }
-  return activeSession
+  throw new Error("No active debug session. Use start_debug_session first.")
 }
 
-export async function create(config: LaunchConfig): Promise<SessionState> {
-  // Stop any existing session
-  if (activeSession) {
-    await stop()
-  }
+export function list(): SessionState[] {
+  return [...sessions.values()]
+}
 
+export async function create(
+  config: LaunchConfig,
+  options: SessionOptions = {},
+): Promise<SessionState> {
   // Auto-detect type if not provided
   if (!config.type) {
     config.type = detectType(config.program)
   }
 
-  const adapter = createAdapter(config.type)
+  const state = createTrackedState(config.type, "launch", config.program)
+  await state.adapter.start(config)
+  createTrace(state, options.traceDepth)
+  sessions.set(state.id, state)
+  return state
+}
+
+export async function attach(
+  config: AttachConfig,
+  options: SessionOptions = {},
+): Promise<SessionState> {
+  const target =
+    config.pid !== undefined
+      ? `pid ${config.pid}`
+      : `${config.host ?? "127.0.0.1"}:${config.port ?? "default port"}`
+  const state = createTrackedState(config.type, "attach", target)
+  await state.adapter.attach(config)
+  createTrace(state, options.traceDepth)
+  sessions.set(state.id, state)
+  return state
+}
+
+function createTrackedState(
+  type: string,
+  mode: SessionState["mode"],
+  program: string,
+): SessionState {
+  const adapter = createAdapter(type)
   const id = `session-${++sessionCounter}`
-  const state = createSessionState(id, adapter)
+  const state = createSessionState(id, adapter, program, mode)
 
   // Track stopped events
   adapter.onStopped((event) => {
@@ -37,21 +80,24 @@ export async function create(config: LaunchConfig): Promise<SessionState> {
     state.stoppedReason = event.reason
   })
 
-  await adapter.start(config)
-  activeSession = state
+  adapter.onOutput((event) => {
+    appendOutput(state.output, event)
+  })
+
   return state
 }
 
-export async function stop(): Promise<void> {
-  if (!activeSession) return
+export async function stop(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId)
+  if (!session) return
+  sessions.delete(sessionId)
   try {
-    await activeSession.adapter.disconnect()
+    await session.adapter.disconnect()
   } catch {
     // Ignore disconnect errors
   }
-  activeSession = null
 }
 
 export async function stopAll(): Promise<void> {
-  await stop()
+  await Promise.all([...sessions.keys()].map((id) => stop(id)))
 }
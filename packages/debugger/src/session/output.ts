@@ -0,0 +1,82 @@
+import type { OutputInfo } from "../adapter/base"
+
+export interface OutputEntry extends OutputInfo {
+  seq: number
+  time: number
+}
+
+/**
+ * Fixed-capacity ring buffer of debuggee output. Every entry gets a
+ * monotonically increasing sequence number, which callers use as a cursor
+ * to page through output and to notice entries that were overwritten.
+ */
+export interface OutputBuffer {
+  capacity: number
+  entries: (OutputEntry | undefined)[]
+  start: number // index of the oldest entry
+  size: number
+  nextSeq: number
+}
+
+export interface OutputPage {
+  entries: OutputEntry[]
+  nextCursor: number
+  dropped: number // entries after the cursor that were overwritten
+}
+
+const DEFAULT_CAPACITY = 2000
+
+export function createOutputBuffer(capacity = DEFAULT_CAPACITY): OutputBuffer {
+  return {
+    capacity,
+    entries: new Array(capacity),
+    start: 0,
+    size: 0,
+    nextSeq: 0,
+  }
+}
+
+export function appendOutput(buffer: OutputBuffer, info: OutputInfo): void {
+  const entry: OutputEntry = {
+    ...info,
+    seq: buffer.nextSeq++,
+    time: Date.now(),
+  }
+  if (buffer.size < buffer.capacity) {
+    buffer.entries[(buffer.start + buffer.size) % buffer.capacity] = entry
+    buffer.size++
+    return
+  }
+  buffer.entries[buffer.start] = entry
+  buffer.start = (buffer.start + 1) % buffer.capacity
+}
+
+/**
+ * Read up to `limit` entries with a sequence number >= `since`.
+ */
+export function readOutput(
+  buffer: OutputBuffer,
+  since = 0,
+  limit = 200,
+  categories?: OutputInfo["category"][],
+): OutputPage {
+  const oldest = buffer.nextSeq - buffer.size
+  const from = Math.max(since, oldest)
+  const entries: OutputEntry[] = []
+  let nextCursor = from
+
+  for (let seq = from; seq < buffer.nextSeq && entries.length < limit; seq++) {
+    const index = (buffer.start + seq - oldest) % buffer.capacity
+    const entry = buffer.entries[index]
+    nextCursor = seq + 1
+    if (!entry) continue
+    if (categories && !categories.includes(entry.category)) continue
+    entries.push(entry)
+  }
+
+  return {
+    entries,
+    nextCursor,
+    dropped: Math.max(0, oldest - since),
+  }
+}
@@ -1,5 +1,14 @@
-import type { SourceBreakpoint } from "../dap/types"
-import type { DebugAdapter } from "../adapter/base"
+import type {
+  DataBreakpointAccessType,
+  FunctionBreakpoint,
+  SourceBreakpoint,
+} from "../dap/types"
+import type {
+  DebugAdapter,
+  ExceptionBreakMode,
+  StopResult,
+} from "../adapter/base"
+import { createOutputBuffer, type OutputBuffer } from "./output"
 
 export interface BreakpointInfo {
   line: number
@@ -11,27 +20,86 @@ export interface BreakpointInfo {
   id?: number
 }
 
+export interface FunctionBreakpointInfo {
+  name: string
+  condition?: string
+  hitCondition?: string
+  verified: boolean
+  id?: number
+  file?: string // where the function resolved to
+  line?: number
+  message?: string
+}
+
+export interface DataBreakpointInfo {
+  name: string
+  frameId?: number
+  accessType?: DataBreakpointAccessType
+  condition?: string
+  hitCondition?: string
+  verified: boolean
+  id?: number
+  message?: string
+}
+
 export interface SessionState {
   id: string
   adapter: DebugAdapter
+  program: string // launched program, or the attach target
+  mode: "launch" | "attach"
   breakpoints: Map<string, BreakpointInfo[]>
+  functionBreakpoints: FunctionBreakpointInfo[]
+  dataBreakpoints: DataBreakpointInfo[]
+  exceptionBreakMode: ExceptionBreakMode
+  output: OutputBuffer
   stoppedThreadId: number | null
   stoppedReason: string | null
+  stoppedLocation: StopResult["location"] | null
+  terminated: boolean
 }
 
 export function createSessionState(
   id: string,
   adapter: DebugAdapter,
+  program: string,
+  mode: SessionState["mode"] = "launch",
 ): SessionState {
   return {
     id,
     adapter,
+    program,
+    mode,
     breakpoints: new Map(),
+    functionBreakpoints: [],
+    dataBreakpoints: [],
+    exceptionBreakMode: "none",
+    output: createOutputBuffer(),
     stoppedThreadId: null,
     stoppedReason: null,
+    stoppedLocation: null,
+    terminated: false,
   }
 }
 
+/**
+ * Record where an execution request left the program, so sessions can be
+ * listed without querying each adapter.
+ */
+export function recordStop(state: SessionState, result: StopResult): void {
+  state.stoppedReason = result.reason
+  state.stoppedThreadId = result.threadId ?? null
+  state.stoppedLocation = result.location ?? null
+  state.terminated = result.terminated ?? false
+}
+
+export function countBreakpoints(state: SessionState): number {
+  let count = state.functionBreakpoints.length + state.dataBreakpoints.length
+  for (const bps of state.breakpoints.values()) {
+    count += bps.length
+  }
+  return count
+}
+
 export function getBreakpointsForFile(
   state: SessionState,
   file: string,
@@ -72,3 +140,13 @@ export function toSourceBreakpoints(
     logMessage: bp.logMessage,
   }))
 }
+
+export function toFunctionBreakpoints(
+  infos: FunctionBreakpointInfo[],
+): FunctionBreakpoint[] {
+  return infos.map((bp) => ({
+    name: bp.name,
+    condition: bp.condition,
+    hitCondition: bp.hitCondition,
+  }))
+}
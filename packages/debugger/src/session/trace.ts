@@ -0,0 +1,244 @@
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import type { ExceptionInfo, StopResult } from "../adapter/base"
+import type { SessionState } from "./state"
+
+export interface TraceFrame {
+  name: string
+  file?: string
+  line: number
+  column: number
+}
+
+export interface TraceVariable {
+  name: string
+  value: string
+  type?: string
+}
+
+export interface TraceStop {
+  index: number
+  time: number
+  reason: string
+  threadId?: number
+  location?: StopResult["location"]
+  exception?: ExceptionInfo
+  callStack: TraceFrame[]
+  variables: TraceVariable[] // top frame, expanded up to the trace's maxDepth
+  outputCursor: number // get_program_output cursor at the time of the stop
+}
+
+export interface Trace {
+  sessionId: string
+  adapterType: string
+  program: string
+  startedAt: number
+  maxDepth: number
+  file: string
+  stops: TraceStop[]
+}
+
+const MAX_STOPS = 500
+const MAX_TRACES = 20
+const TRACE_DIR = path.join(os.tmpdir(), "opencode-debugger", "traces")
+
+// Traces outlive their sessions so a walkthrough can refer back to a run
+// after the program has exited or the session was stopped, or the server
+// restarted. Each trace is a JSONL file: a header line followed by one line
+// per stop. Only the most recently used traces are kept in memory; the rest
+// are read back from disk on demand.
+const traces = new Map<string, Trace>()
+const writes = new Map<string, Promise<void>>()
+
+export function createTrace(state: SessionState, maxDepth = 1): Trace {
+  const startedAt = Date.now()
+  const trace: Trace = {
+    sessionId: state.id,
+    adapterType: state.adapter.id,
+    program: state.program,
+    startedAt,
+    maxDepth,
+    file: path.join(TRACE_DIR, `${startedAt}-${state.id}.jsonl`),
+    stops: [],
+  }
+  remember(trace)
+  append(trace, {
+    sessionId: trace.sessionId,
+    adapterType: trace.adapterType,
+    program: trace.program,
+    startedAt,
+    maxDepth,
+  })
+  return trace
+}
+
+/**
+ * Find a session's trace, in memory or on disk. Session IDs restart with
+ * each server process, so on disk the newest trace with the ID wins.
+ */
+export async function getTrace(
+  sessionId?: string,
+): Promise<Trace | undefined> {
+  if (!sessionId) {
+    const newest = (await listTraces()).at(-1)
+    return newest && getTrace(newest.sessionId)
+  }
+  const cached = traces.get(sessionId)
+  if (cached) return remember(cached)
+  const file = (await traceFiles())
+    .filter((f) => f.endsWith(`-${sessionId}.jsonl`))
+    .at(-1)
+  if (!file) return undefined
+  const trace = await load(path.join(TRACE_DIR, file))
+  return trace ? remember(trace) : undefined
+}
+
+/**
+ * Every recorded trace, oldest first. Traces only on disk are listed by
+ * their header and carry no stops.
+ */
+export async function listTraces(): Promise<Trace[]> {
+  const result = new Map<string, Trace>()
+  for (const file of await traceFiles()) {
+    const header = await readHeader(path.join(TRACE_DIR, file))
+    if (header) result.set(header.file, header)
+  }
+  for (const trace of traces.values()) result.set(trace.file, trace)
+  return [...result.values()].sort((a, b) => a.startedAt - b.startedAt)
+}
+
+/**
+ * Snapshot the program state at a stop and append it to the session's
+ * trace. Terminations are recorded without a snapshot. Inspection failures
+ * are recorded as empty snapshots rather than failing the execution tool.
+ */
+export async function recordTraceStop(
+  state: SessionState,
+  result: StopResult,
+): Promise<TraceStop | undefined> {
+  const trace = traces.get(state.id) ?? (await getTrace(state.id))
+  if (!trace) return undefined
+
+  let callStack: TraceFrame[] = []
+  let variables: TraceVariable[] = []
+  if (!result.terminated) {
+    try {
+      const frames = await state.adapter.getCallStack(result.threadId)
+      callStack = frames.map((f) => ({
+        name: f.name,
+        file: f.source?.path,
+        line: f.line,
+        column: f.column,
+      }))
+      if (frames[0]) {
+        const vars = await state.adapter.getVariables(
+          frames[0].id,
+          undefined,
+          trace.maxDepth,
+        )
+        variables = vars.map((v) => ({
+          name: v.name,
+          value: v.value,
+          type: v.type,
+        }))
+      }
+    } catch {
+      // Keep the stop with whatever was captured
+    }
+  }
+
+  const previous = trace.stops.at(-1)
+  const stop: TraceStop = {
+    index: previous ? previous.index + 1 : 0,
+    time: Date.now(),
+    reason: result.reason,
+    threadId: result.threadId,
+    location: result.location,
+    exception: result.exception,
+    callStack,
+    variables,
+    outputCursor: state.output.nextSeq,
+  }
+  trace.stops.push(stop)
+  if (trace.stops.length > MAX_STOPS) trace.stops.shift()
+
+  await append(trace, stop)
+  return stop
+}
+
+export function getTraceStop(
+  trace: Trace,
+  index: number,
+): TraceStop | undefined {
+  return trace.stops.find((s) => s.index === index)
+}
+
+function remember(trace: Trace): Trace {
+  // Re-insert so the Map stays ordered by last use, then evict the oldest
+  traces.delete(trace.sessionId)
+  traces.set(trace.sessionId, trace)
+  for (const sessionId of traces.keys()) {
+    if (traces.size <= MAX_TRACES) break
+    traces.delete(sessionId)
+  }
+  return trace
+}
+
+/**
+ * Append a line to the trace file. Writes are chained per file so the
+ * header always lands before the stops.
+ */
+function append(trace: Trace, line: unknown): Promise<void> {
+  const previous = writes.get(trace.file) ?? Promise.resolve()
+  const next = previous.then(async () => {
+    try {
+      await fs.mkdir(TRACE_DIR, { recursive: true })
+      await fs.appendFile(trace.file, JSON.stringify(line) + "\n")
+    } catch (err: any) {
+      console.error(`[debugger] Failed to persist trace: ${err.message}`)
+    }
+  })
+  writes.set(trace.file, next)
+  next.then(() => {
+    if (writes.get(trace.file) === next) writes.delete(trace.file)
+  })
+  return next
+}
+
+/**
+ * Trace files sorted oldest first; names start with the start timestamp.
+ */
+async function traceFiles(): Promise<string[]> {
+  await Promise.all(writes.values())
+  const files = await fs.readdir(TRACE_DIR).catch(() => [] as string[])
+  return files
+    .filter((f) => f.endsWith(".jsonl"))
+    .sort((a, b) => parseInt(a) - parseInt(b))
+}
+
+async function load(file: string): Promise<Trace | undefined> {
+  await writes.get(file)
+  const text = await fs.readFile(file, "utf8").catch(() => undefined)
+  if (!text) return undefined
+  try {
+    const [header, ...stops] = text
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+    return { ...header, file, stops: stops.slice(-MAX_STOPS) }
+  } catch {
+    return undefined
+  }
+}
+
+async function readHeader(file: string): Promise<Trace | undefined> {
+  const text = await fs.readFile(file, "utf8").catch(() => undefined)
+  const line = text?.slice(0, text.indexOf("\n"))
+  if (!line) return undefined
+  try {
+    return { ...JSON.parse(line), file, stops: [] }
+  } catch {
+    return undefined
+  }
+}
@@ -5,9 +5,14 @@ import {
   getBreakpointsForFile,
   setBreakpointsForFile,
   getAllBreakpoints,
+  toFunctionBreakpoints,
   toSourceBreakpoints,
   type BreakpointInfo,
+  type DataBreakpointInfo,
+  type FunctionBreakpointInfo,
+  type SessionState,
 } from "../session/state"
+import { sessionIdParam } from "./session"
 
 export function registerBreakpointTools(server: McpServer): void {
   server.tool(
@@ -35,9 +40,10 @@ export function registerBreakpointTools(server: McpServer): void {
           }),
         )
         .describe("Breakpoints to set"),
+      sessionId: sessionIdParam,
     },
-    async ({ file, breakpoints }) => {
-      const session = SessionManager.requireActive()
+    async ({ file, breakpoints, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
 
       // Merge with existing breakpoints
       const existing = getBreakpointsForFile(session, file)
@@ -97,9 +103,10 @@ export function registerBreakpointTools(server: McpServer): void {
         .array(z.number())
         .optional()
         .describe("Specific line numbers to remove. Omit to remove all."),
+      sessionId: sessionIdParam,
     },
-    async ({ file, lines }) => {
-      const session = SessionManager.requireActive()
+    async ({ file, lines, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
 
       const existing = getBreakpointsForFile(session, file)
       const remaining = lines
@@ -140,20 +147,257 @@ export function registerBreakpointTools(server: McpServer): void {
 
   server.tool(
     "list_breakpoints",
-    "List all breakpoints across all files in the active debug session.",
-    {},
-    async () => {
-      const session = SessionManager.requireActive()
-      const all = getAllBreakpoints(session)
+    "List all breakpoints in a debug session: source lines per file, function breakpoints, data breakpoints and exception pausing.",
+    {
+      sessionId: sessionIdParam,
+    },
+    async ({ sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                files: getAllBreakpoints(session),
+                functions: session.functionBreakpoints,
+                data: session.dataBreakpoints,
+                pauseOnExceptions: session.exceptionBreakMode,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      }
+    },
+  )
+
+  server.tool(
+    "set_function_breakpoints",
+    'Break whenever a function is called, by name, without knowing its file or line (e.g. "handleLogin", "UserService.create", Go "main.processOrder"). Merges with existing function breakpoints.',
+    {
+      breakpoints: z
+        .array(
+          z.object({
+            name: z.string().describe("Function name"),
+            condition: z
+              .string()
+              .optional()
+              .describe("Conditional expression for the breakpoint"),
+            hitCondition: z
+              .string()
+              .optional()
+              .describe("Hit count condition"),
+          }),
+        )
+        .describe("Function breakpoints to set"),
+      sessionId: sessionIdParam,
+    },
+    async ({ breakpoints, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+
+      const merged = [...session.functionBreakpoints]
+      for (const bp of breakpoints) {
+        const idx = merged.findIndex((e) => e.name === bp.name)
+        if (idx >= 0) {
+          merged[idx] = { ...bp, verified: false }
+        } else {
+          merged.push({ ...bp, verified: false })
+        }
+      }
+
+      const updated = await applyFunctionBreakpoints(session, merged)
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ functions: updated }, null, 2),
+          },
+        ],
+      }
+    },
+  )
+
+  server.tool(
+    "remove_function_breakpoints",
+    "Remove function breakpoints by name. Omit names to remove all function breakpoints.",
+    {
+      names: z
+        .array(z.string())
+        .optional()
+        .describe("Function names to remove. Omit to remove all."),
+      sessionId: sessionIdParam,
+    },
+    async ({ names, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+      const remaining = names
+        ? session.functionBreakpoints.filter((bp) => !names.includes(bp.name))
+        : []
+      await applyFunctionBreakpoints(session, remaining)
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              removed: names ?? "all",
+              remaining: remaining.length,
+            }),
+          },
+        ],
+      }
+    },
+  )
+
+  server.tool(
+    "set_data_breakpoints",
+    "Break when a variable's value is written (or read, where supported). The variable is resolved in the given stack frame, so the program must be paused where it is in scope. Only available on runtimes whose debugger supports watchpoints; Node.js does not. Merges with existing data breakpoints.",
+    {
+      breakpoints: z
+        .array(
+          z.object({
+            name: z
+              .string()
+              .describe("Variable name or expression to watch"),
+            frameId: z
+              .number()
+              .optional()
+              .describe(
+                "Stack frame the variable belongs to. Uses the top frame if omitted.",
+              ),
+            accessType: z
+              .enum(["read", "write", "readWrite"])
+              .optional()
+              .describe('Access that triggers the break. Default: "write"'),
+            condition: z
+              .string()
+              .optional()
+              .describe("Conditional expression for the breakpoint"),
+            hitCondition: z
+              .string()
+              .optional()
+              .describe("Hit count condition"),
+          }),
+        )
+        .describe("Data breakpoints to set"),
+      sessionId: sessionIdParam,
+    },
+    async ({ breakpoints, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+
+      const merged = [...session.dataBreakpoints]
+      for (const bp of breakpoints) {
+        const idx = merged.findIndex((e) => e.name === bp.name)
+        if (idx >= 0) {
+          merged[idx] = { ...bp, verified: false }
+        } else {
+          merged.push({ ...bp, verified: false })
+        }
+      }
+
+      const updated = await applyDataBreakpoints(session, merged)
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ data: updated }, null, 2),
+          },
+        ],
+      }
+    },
+  )
+
+  server.tool(
+    "remove_data_breakpoints",
+    "Remove data breakpoints by variable name. Omit names to remove all data breakpoints.",
+    {
+      names: z
+        .array(z.string())
+        .optional()
+        .describe("Variable names to remove. Omit to remove all."),
+      sessionId: sessionIdParam,
+    },
+    async ({ names, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+      const remaining = names
+        ? session.dataBreakpoints.filter((bp) => !names.includes(bp.name))
+        : []
+      await applyDataBreakpoints(session, remaining)
 
       return {
         content: [
           {
             type: "text" as const,
-            text: JSON.stringify(all, null, 2),
+            text: JSON.stringify({
+              removed: names ?? "all",
+              remaining: remaining.length,
+            }),
           },
         ],
       }
     },
   )
+
+  server.tool(
+    "set_exception_breakpoints",
+    'Pause when an exception is thrown. "uncaught" pauses only on exceptions (or rejected promises) nothing handles, "all" pauses on every throw, "none" turns exception pausing off. When paused this way, the stop result includes the exception\'s type, message and stack.',
+    {
+      mode: z
+        .enum(["none", "uncaught", "all"])
+        .describe("Which exceptions to pause on"),
+      sessionId: sessionIdParam,
+    },
+    async ({ mode, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+      await session.adapter.setExceptionBreakpoints(mode)
+      session.exceptionBreakMode = mode
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ pauseOnExceptions: mode }),
+          },
+        ],
+      }
+    },
+  )
+}
+
+async function applyFunctionBreakpoints(
+  session: SessionState,
+  breakpoints: FunctionBreakpointInfo[],
+): Promise<FunctionBreakpointInfo[]> {
+  const results = await session.adapter.setFunctionBreakpoints(
+    toFunctionBreakpoints(breakpoints),
+  )
+  const updated = breakpoints.map((bp, i) => ({
+    ...bp,
+    verified: results[i]?.verified ?? false,
+    id: results[i]?.id,
+    file: results[i]?.file,
+    line: results[i]?.line,
+    message: results[i]?.message,
+  }))
+  session.functionBreakpoints = updated
+  return updated
+}
+
+async function applyDataBreakpoints(
+  session: SessionState,
+  breakpoints: DataBreakpointInfo[],
+): Promise<DataBreakpointInfo[]> {
+  const results = await session.adapter.setDataBreakpoints(breakpoints)
+  const updated = breakpoints.map((bp, i) => ({
+    ...bp,
+    verified: results[i]?.verified ?? false,
+    id: results[i]?.id,
+    message: results[i]?.message,
+  }))
+  session.dataBreakpoints = updated
+  return updated
 }
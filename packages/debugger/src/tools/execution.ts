@@ -1,38 +1,79 @@
 import { z } from "zod"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import * as SessionManager from "../session/manager"
+import { recordStop, type SessionState } from "../session/state"
+import { recordTraceStop, type TraceStop } from "../session/trace"
 import type { StopResult } from "../adapter/base"
+import { sessionIdParam } from "./session"
 
-function formatStopResult(result: StopResult): string {
+function formatStopResult(
+  session: SessionState,
+  result: StopResult,
+  traceStop?: TraceStop,
+): string {
+  // Output up to this point can be read with get_program_output since the
+  // previous stop's cursor, which ties console output to this stop
+  const outputCursor = session.output.nextSeq
   if (result.terminated) {
     return JSON.stringify({
+      sessionId: session.id,
       status: "terminated",
       message: "Program has terminated.",
+      outputCursor,
+      stopIndex: traceStop?.index,
+    })
+  }
+  if (result.running) {
+    return JSON.stringify({
+      sessionId: session.id,
+      status: "running",
+      message:
+        "No breakpoint was hit yet; the attached process is still running. Exercise the code path (e.g. send the request) and call continue_execution again to keep waiting.",
+      outputCursor,
     })
   }
   return JSON.stringify({
+    sessionId: session.id,
     status: "stopped",
     reason: result.reason,
     threadId: result.threadId,
     location: result.location,
+    exception: result.exception,
+    outputCursor,
+    stopIndex: traceStop?.index,
   })
 }
 
 export function registerExecutionTools(server: McpServer): void {
   server.tool(
     "continue_execution",
-    "Continue program execution until the next breakpoint or program termination.",
+    "Continue program execution until the next breakpoint or program termination. On an attached process that is not paused, waits up to 5 minutes for a breakpoint and otherwise reports it still running.",
     {
       threadId: z
         .number()
         .optional()
         .describe("Thread ID to continue. Uses the stopped thread if omitted."),
+      sessionId: sessionIdParam,
     },
-    async ({ threadId }) => {
-      const session = SessionManager.requireActive()
+    async ({ threadId, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const result = await session.adapter.continue(threadId)
+      if (result.running) {
+        return {
+          content: [
+            { type: "text" as const, text: formatStopResult(session, result) },
+          ],
+        }
+      }
+      recordStop(session, result)
+      const traceStop = await recordTraceStop(session, result)
       return {
-        content: [{ type: "text" as const, text: formatStopResult(result) }],
+        content: [
+          {
+            type: "text" as const,
+            text: formatStopResult(session, result, traceStop),
+          },
+        ],
       }
     },
   )
@@ -45,12 +86,20 @@ export function registerExecutionTools(server: McpServer): void {
         .number()
         .optional()
         .describe("Thread ID. Uses the stopped thread if omitted."),
+      sessionId: sessionIdParam,
     },
-    async ({ threadId }) => {
-      const session = SessionManager.requireActive()
+    async ({ threadId, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const result = await session.adapter.stepOver(threadId)
+      recordStop(session, result)
+      const traceStop = await recordTraceStop(session, result)
       return {
-        content: [{ type: "text" as const, text: formatStopResult(result) }],
+        content: [
+          {
+            type: "text" as const,
+            text: formatStopResult(session, result, traceStop),
+          },
+        ],
       }
     },
   )
@@ -63,12 +112,20 @@ export function registerExecutionTools(server: McpServer): void {
         .number()
         .optional()
         .describe("Thread ID. Uses the stopped thread if omitted."),
+      sessionId: sessionIdParam,
     },
-    async ({ threadId }) => {
-      const session = SessionManager.requireActive()
+    async ({ threadId, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const result = await session.adapter.stepIn(threadId)
+      recordStop(session, result)
+      const traceStop = await recordTraceStop(session, result)
       return {
-        content: [{ type: "text" as const, text: formatStopResult(result) }],
+        content: [
+          {
+            type: "text" as const,
+            text: formatStopResult(session, result, traceStop),
+          },
+        ],
       }
     },
   )
@@ -81,12 +138,20 @@ export function registerExecutionTools(server: McpServer): void {
         .number()
         .optional()
         .describe("Thread ID. Uses the stopped thread if omitted."),
+      sessionId: sessionIdParam,
     },
-    async ({ threadId }) => {
-      const session = SessionManager.requireActive()
+    async ({ threadId, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const result = await session.adapter.stepOut(threadId)
+      recordStop(session, result)
+      const traceStop = await recordTraceStop(session, result)
       return {
-        content: [{ type: "text" as const, text: formatStopResult(result) }],
+        content: [
+          {
+            type: "text" as const,
+            text: formatStopResult(session, result, traceStop),
+          },
+        ],
       }
     },
   )
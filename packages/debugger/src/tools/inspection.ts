@@ -1,6 +1,8 @@
 import { z } from "zod"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import * as SessionManager from "../session/manager"
+import { readOutput } from "../session/output"
+import { sessionIdParam } from "./session"
 
 export function registerInspectionTools(server: McpServer): void {
   server.tool(
@@ -25,9 +27,10 @@ export function registerInspectionTools(server: McpServer): void {
         .describe(
           "Maximum depth for expanding nested objects. Default: 1.",
         ),
+      sessionId: sessionIdParam,
     },
-    async ({ frameId, scope, maxDepth }) => {
-      const session = SessionManager.requireActive()
+    async ({ frameId, scope, maxDepth, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const variables = await session.adapter.getVariables(
         frameId,
         scope,
@@ -63,9 +66,10 @@ export function registerInspectionTools(server: McpServer): void {
         .describe(
           "Thread ID to get the call stack for. Uses the stopped thread if omitted.",
         ),
+      sessionId: sessionIdParam,
     },
-    async ({ threadId }) => {
-      const session = SessionManager.requireActive()
+    async ({ threadId, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const frames = await session.adapter.getCallStack(threadId)
 
       return {
@@ -100,9 +104,10 @@ export function registerInspectionTools(server: McpServer): void {
         .describe(
           "Stack frame ID for the evaluation context. Uses the top frame if omitted.",
         ),
+      sessionId: sessionIdParam,
     },
-    async ({ expression, frameId }) => {
-      const session = SessionManager.requireActive()
+    async ({ expression, frameId, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
       const result = await session.adapter.evaluate(expression, frameId)
 
       return {
@@ -122,4 +127,50 @@ export function registerInspectionTools(server: McpServer): void {
       }
     },
   )
+  server.tool(
+    "get_program_output",
+    "Get what the program printed: stdout/stderr, console API calls and logpoint messages. Pass the outputCursor from an earlier stop result (or the nextCursor of a previous call) as since to see only newer output — e.g. what was printed between two breakpoint hits.",
+    {
+      since: z
+        .number()
+        .optional()
+        .describe("Cursor to read from. Default: 0 (oldest buffered output)"),
+      limit: z
+        .number()
+        .optional()
+        .describe("Maximum number of entries to return. Default: 200"),
+      categories: z
+        .array(z.enum(["stdout", "stderr", "console", "important"]))
+        .optional()
+        .describe("Only return these categories. Default: all"),
+      sessionId: sessionIdParam,
+    },
+    async ({ since, limit, categories, sessionId }) => {
+      const session = SessionManager.requireActive(sessionId)
+      const page = readOutput(session.output, since, limit, categories)
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                entries: page.entries.map((e) => ({
+                  seq: e.seq,
+                  category: e.category,
+                  output: e.output,
+                  file: e.file,
+                  line: e.line,
+                })),
+                nextCursor: page.nextCursor,
+                dropped: page.dropped > 0 ? page.dropped : undefined,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      }
+    },
+  )
 }
@@ -1,19 +1,39 @@
 import { z } from "zod"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import * as SessionManager from "../session/manager"
+import { countBreakpoints, recordStop } from "../session/state"
+import { recordTraceStop } from "../session/trace"
+
+export const sessionIdParam = z
+  .string()
+  .optional()
+  .describe(
+    "Debug session ID. Uses the most recently started session if omitted.",
+  )
+
+const traceDepthParam = z
+  .number()
+  .optional()
+  .describe(
+    "Depth to which top-frame variables are expanded in the execution trace recorded at every stop. Default: 1",
+  )
 
 export function registerSessionTools(server: McpServer): void {
   server.tool(
     "start_debug_session",
-    "Start a new debug session. Launches the program in debug mode and pauses at the entry point.",
+    "Start a new debug session. Launches the program in debug mode and pauses at the entry point. Existing sessions keep running; pass the returned sessionId to other tools to address this one.",
     {
       type: z
         .string()
         .optional()
         .describe(
-          'Debug adapter type: "node" or "python". Auto-detected from file extension if omitted.',
+          'Debug adapter type: "node", "python" or "go". Auto-detected from file extension (or go.mod) if omitted.',
+        ),
+      program: z
+        .string()
+        .describe(
+          "Path to the program to debug. For Go: a main .go file, a package directory, or a prebuilt binary in exec mode",
         ),
-      program: z.string().describe("Path to the program to debug"),
       args: z
         .array(z.string())
         .optional()
@@ -44,6 +64,21 @@ export function registerSessionTools(server: McpServer): void {
         .string()
         .optional()
         .describe("Python module to run (python -m <module>)"),
+      mode: z
+        .enum(["debug", "test", "exec"])
+        .optional()
+        .describe(
+          'Go only: "debug" builds and runs a main package, "test" builds and runs the package\'s test binary, "exec" runs a prebuilt binary (e.g. from go test -c). Default: "debug"',
+        ),
+      buildFlags: z
+        .string()
+        .optional()
+        .describe('Go only: flags passed to go build (e.g. "-tags=integration")'),
+      dlvPath: z
+        .string()
+        .optional()
+        .describe("Go only: path to the Delve executable (default: dlv)"),
+      traceDepth: traceDepthParam,
     },
     async ({
       type,
@@ -55,21 +90,33 @@ export function registerSessionTools(server: McpServer): void {
       runtimeArgs,
       pythonPath,
       module,
+      mode,
+      buildFlags,
+      dlvPath,
+      traceDepth,
     }) => {
-      const session = await SessionManager.create({
-        type: type ?? "",
-        program,
-        args,
-        cwd,
-        env,
-        runtimeExecutable,
-        runtimeArgs,
-        pythonPath,
-        module,
-      })
+      const session = await SessionManager.create(
+        {
+          type: type ?? "",
+          program,
+          args,
+          cwd,
+          env,
+          runtimeExecutable,
+          runtimeArgs,
+          pythonPath,
+          module,
+          mode,
+          buildFlags,
+          dlvPath,
+        },
+        { traceDepth },
+      )
 
       // Wait for the initial --inspect-brk / stopOnEntry pause
       const initialStop = await session.adapter.waitForInitialPause()
+      recordStop(session, initialStop)
+      await recordTraceStop(session, initialStop)
 
       return {
         content: [
@@ -89,12 +136,77 @@ export function registerSessionTools(server: McpServer): void {
     },
   )
 
+  server.tool(
+    "attach_debug_session",
+    "Attach to an already running process (e.g. a dev server started with `bun --inspect=<port> --watch` or under debugpy with uvicorn --reload) without restarting it. The process keeps running until a breakpoint is hit, and keeps running after stop_debug_session.",
+    {
+      type: z
+        .enum(["node", "python", "go"])
+        .describe("Debug adapter type of the running process"),
+      host: z
+        .string()
+        .optional()
+        .describe("Host the debugger is listening on (default: 127.0.0.1)"),
+      port: z
+        .number()
+        .optional()
+        .describe(
+          "Debugger port. Node: inspector port (default 9229). Python: the port given to debugpy --listen. Go: a headless dlv server's port",
+        ),
+      pid: z
+        .number()
+        .optional()
+        .describe(
+          "Process ID. Node: opens the inspector via SIGUSR1, plain `node` only (not Bun or `node --watch`; use port). Go: attaches Delve to the process. Not supported for Python",
+        ),
+      cwd: z
+        .string()
+        .optional()
+        .describe("Working directory of the process, for resolving paths"),
+      dlvPath: z
+        .string()
+        .optional()
+        .describe("Go only: path to the Delve executable (default: dlv)"),
+      traceDepth: traceDepthParam,
+    },
+    async ({ type, host, port, pid, cwd, dlvPath, traceDepth }) => {
+      const session = await SessionManager.attach(
+        {
+          type,
+          host,
+          port,
+          pid,
+          cwd,
+          dlvPath,
+        },
+        { traceDepth },
+      )
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              sessionId: session.id,
+              adapterType: session.adapter.id,
+              status: "attached",
+              message:
+                "Attached to the running process. It keeps running — set breakpoints, trigger the code, then use continue_execution to wait for the next breakpoint hit.",
+            }),
+          },
+        ],
+      }
+    },
+  )
+
   server.tool(
     "stop_debug_session",
-    "Stop the active debug session and clean up resources.",
-    {},
-    async () => {
-      const session = SessionManager.active()
+    "Stop a debug session and clean up resources. Launched programs are terminated; attached processes are detached from and keep running.",
+    {
+      sessionId: sessionIdParam,
+    },
+    async ({ sessionId }) => {
+      const session = SessionManager.active(sessionId)
       if (!session) {
         return {
           content: [
@@ -102,25 +214,68 @@ export function registerSessionTools(server: McpServer): void {
               type: "text" as const,
               text: JSON.stringify({
                 status: "no_session",
-                message: "No active debug session to stop.",
+                message: sessionId
+                  ? `No debug session "${sessionId}" to stop.`
+                  : "No active debug session to stop.",
               }),
             },
           ],
         }
       }
 
-      await SessionManager.stop()
+      await SessionManager.stop(session.id)
       return {
         content: [
           {
             type: "text" as const,
             text: JSON.stringify({
-              status: "stopped",
-              message: "Debug session stopped.",
+              sessionId: session.id,
+              status: session.mode === "attach" ? "detached" : "stopped",
+              message:
+                session.mode === "attach"
+                  ? "Detached from the process. It is still running."
+                  : "Debug session stopped.",
             }),
           },
         ],
       }
     },
   )
+  server.tool(
+    "list_debug_sessions",
+    "List all running debug sessions with their adapter, program, stopped location and breakpoint count.",
+    {},
+    async () => {
+      const sessions = SessionManager.list()
+      const current = SessionManager.active()
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              sessions.map((session) => ({
+                sessionId: session.id,
+                adapterType: session.adapter.id,
+                mode: session.mode,
+                program: session.program,
+                status: session.terminated
+                  ? "terminated"
+                  : session.stoppedLocation
+                    ? "stopped"
+                    : "running",
+                stoppedAt: session.stoppedLocation ?? undefined,
+                stoppedReason: session.stoppedReason ?? undefined,
+                breakpointCount: countBreakpoints(session),
+                pauseOnExceptions: session.exceptionBreakMode,
+                default: session === current,
+              })),
+              null,
+              2,
+            ),
+          },
+        ],
+      }
+    },
+  )
 }
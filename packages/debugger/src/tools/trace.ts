@@ -0,0 +1,114 @@
+import { z } from "zod"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import * as SessionManager from "../session/manager"
+import { readOutput } from "../session/output"
+import { getTrace, getTraceStop, listTraces } from "../session/trace"
+
+export function registerTraceTools(server: McpServer): void {
+  server.tool(
+    "get_trace",
+    "Get the execution trace of a debug session: every stop in order with its location and reason. Traces are kept on disk after the session stops, so earlier runs (including ones from before a debugger restart) can still be referred to. Use replay_stop for the full state at one stop.",
+    {
+      sessionId: z
+        .string()
+        .optional()
+        .describe(
+          "Debug session ID. Uses the most recently started session if omitted; stopped sessions are included.",
+        ),
+    },
+    async ({ sessionId }) => {
+      const trace = await getTrace(sessionId)
+      if (!trace) {
+        const ids = [...new Set((await listTraces()).map((t) => t.sessionId))]
+        throw new Error(
+          sessionId
+            ? `No trace for debug session "${sessionId}". Recorded sessions: ${ids.length > 0 ? ids.join(", ") : "none"}`
+            : "No execution trace recorded yet. Use start_debug_session first.",
+        )
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                sessionId: trace.sessionId,
+                adapterType: trace.adapterType,
+                program: trace.program,
+                file: trace.file,
+                stops: trace.stops.map((stop) => ({
+                  index: stop.index,
+                  time: new Date(stop.time).toISOString(),
+                  reason: stop.reason,
+                  location: stop.location,
+                  exception: stop.exception?.message,
+                  variableCount: stop.variables.length,
+                })),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      }
+    },
+  )
+
+  server.tool(
+    "replay_stop",
+    "Show the recorded state at an earlier stop: location, call stack, top-frame variables, any exception, and the output printed since the previous stop. Does not affect the running program.",
+    {
+      index: z.number().describe("Stop index from get_trace"),
+      sessionId: z
+        .string()
+        .optional()
+        .describe(
+          "Debug session ID. Uses the most recently started session if omitted; stopped sessions are included.",
+        ),
+    },
+    async ({ index, sessionId }) => {
+      const trace = await getTrace(sessionId)
+      const stop = trace ? getTraceStop(trace, index) : undefined
+      if (!trace || !stop) {
+        throw new Error(
+          `No recorded stop ${index}${sessionId ? ` in debug session "${sessionId}"` : ""}. Use get_trace to list stops.`,
+        )
+      }
+
+      // Output is only buffered while the session is running
+      const session = SessionManager.active(trace.sessionId)
+      const previous = getTraceStop(trace, index - 1)
+      const output = session
+        ? readOutput(
+            session.output,
+            previous?.outputCursor ?? 0,
+            stop.outputCursor - (previous?.outputCursor ?? 0),
+          ).entries.map((e) => ({ category: e.category, output: e.output }))
+        : undefined
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                sessionId: trace.sessionId,
+                index: stop.index,
+                time: new Date(stop.time).toISOString(),
+                reason: stop.reason,
+                location: stop.location,
+                exception: stop.exception,
+                callStack: stop.callStack,
+                variables: stop.variables,
+                output,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      }
+    },
+  )
+}
@@ -0,0 +1,10 @@
+CREATE TABLE `debug_phase` (
+	`session_id` text PRIMARY KEY,
+	`phase` text NOT NULL,
+	`step` integer NOT NULL,
+	`total_steps` integer,
+	`step_descriptions` text NOT NULL,
+	`auto_confirm` integer NOT NULL,
+	`time_created` integer NOT NULL,
+	`time_updated` integer NOT NULL
+);
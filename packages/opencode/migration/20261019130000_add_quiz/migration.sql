@@ -0,0 +1,21 @@
+CREATE TABLE `quiz` (
+	`id` text PRIMARY KEY,
+	`session_id` text NOT NULL,
+	`project_id` text NOT NULL,
+	`step` integer NOT NULL,
+	`phase` text,
+	`question` text NOT NULL,
+	`expected` text NOT NULL,
+	`answer` text,
+	`verdict` text NOT NULL,
+	`score` real NOT NULL,
+	`file` text,
+	`line` integer,
+	`time_created` integer NOT NULL,
+	`time_updated` integer NOT NULL,
+	CONSTRAINT `fk_quiz_session_id_session_id_fk` FOREIGN KEY (`session_id`) REFERENCES `session`(`id`) ON DELETE CASCADE,
+	CONSTRAINT `fk_quiz_project_id_project_id_fk` FOREIGN KEY (`project_id`) REFERENCES `project`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `quiz_session_idx` ON `quiz` (`session_id`);--> statement-breakpoint
+CREATE INDEX `quiz_project_idx` ON `quiz` (`project_id`);
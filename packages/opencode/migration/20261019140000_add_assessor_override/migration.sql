@@ -0,0 +1,12 @@
+CREATE TABLE `assessor_override` (
+	`id` text PRIMARY KEY,
+	`project_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`assessed` text NOT NULL,
+	`chosen` text NOT NULL,
+	`time_created` integer NOT NULL,
+	`time_updated` integer NOT NULL,
+	CONSTRAINT `fk_assessor_override_project_id_project_id_fk` FOREIGN KEY (`project_id`) REFERENCES `project`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `assessor_override_project_idx` ON `assessor_override` (`project_id`);
@@ -0,0 +1,22 @@
+CREATE TABLE `queue_task` (
+	`id` text PRIMARY KEY,
+	`session_id` text NOT NULL,
+	`child_id` text,
+	`title` text NOT NULL,
+	`prompt` text NOT NULL,
+	`agent` text NOT NULL,
+	`status` text NOT NULL,
+	`position` integer NOT NULL,
+	`snapshot_from` text,
+	`snapshot_to` text,
+	`files` text,
+	`review` text,
+	`error` text,
+	`time_created` integer NOT NULL,
+	`time_updated` integer NOT NULL,
+	`time_started` integer,
+	`time_completed` integer,
+	CONSTRAINT `fk_queue_task_session_id_session_id_fk` FOREIGN KEY (`session_id`) REFERENCES `session`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+CREATE INDEX `queue_task_session_idx` ON `queue_task` (`session_id`);
@@ -0,0 +1,17 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_debug_phase` (
+	`session_id` text PRIMARY KEY,
+	`phase` text NOT NULL,
+	`step` integer NOT NULL,
+	`total_steps` integer,
+	`step_descriptions` text NOT NULL,
+	`auto_confirm` integer NOT NULL,
+	`time_created` integer NOT NULL,
+	`time_updated` integer NOT NULL,
+	CONSTRAINT `fk_debug_phase_session_id_session_id_fk` FOREIGN KEY (`session_id`) REFERENCES `session`(`id`) ON DELETE CASCADE
+);
+--> statement-breakpoint
+INSERT INTO `__new_debug_phase`(`session_id`, `phase`, `step`, `total_steps`, `step_descriptions`, `auto_confirm`, `time_created`, `time_updated`) SELECT `session_id`, `phase`, `step`, `total_steps`, `step_descriptions`, `auto_confirm`, `time_created`, `time_updated` FROM `debug_phase` WHERE `session_id` IN (SELECT `id` FROM `session`);--> statement-breakpoint
+DROP TABLE `debug_phase`;--> statement-breakpoint
+ALTER TABLE `__new_debug_phase` RENAME TO `debug_phase`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
@@ -0,0 +1 @@
+ALTER TABLE `assessor_override` ADD `terms` text;
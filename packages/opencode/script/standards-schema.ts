@@ -0,0 +1,20 @@
+#!/usr/bin/env bun
+
+import { z } from "zod"
+import { Standards } from "../src/agent/standards"
+
+const file = process.argv[2]
+console.log(file)
+
+// Schema for .humancode/standards.yml, referenced from the file's yaml-language-server modeline
+const result = z.toJSONSchema(Standards.Config, {
+  io: "input",
+  override(ctx) {
+    const schema = ctx.jsonSchema
+    if (schema && typeof schema === "object" && schema.type === "object" && schema.additionalProperties === undefined) {
+      schema.additionalProperties = false
+    }
+  },
+})
+
+await Bun.write(file, JSON.stringify(result, null, 2))
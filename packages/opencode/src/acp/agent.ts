@@ -1363,7 +1363,8 @@ export namespace ACP {
           },
           variant: this.sessionManager.getVariant(sessionID),
           parts,
-          agent,
+          // Without a chosen mode the server assesses the prompt and picks one
+          agent: session.modeId,
           directory,
         })
         const msg = response.data?.info
@@ -48,12 +48,23 @@ export namespace Agent {
       prompt: z.string().optional(),
       options: z.record(z.string(), z.any()),
       steps: z.number().int().positive().optional(),
+      workflow: Config.DebugWorkflow.optional(),
+      noCode: z
+        .object({
+          action: z.enum(["redact", "reprompt"]),
+          lines: z.number().int().positive(),
+        })
+        .optional()
+        .describe("Output guard against code blocks longer than `lines`"),
     })
     .meta({
       ref: "Agent",
     })
   export type Info = z.infer<typeof Info>
 
+  // Pair's guard: redact code blocks longer than a short snippet
+  const NO_CODE: NonNullable<Info["noCode"]> = { action: "redact", lines: 5 }
+
   const state = Instance.state(async () => {
     const cfg = await Config.get()
 
@@ -67,6 +78,8 @@ export namespace Agent {
         ...Object.fromEntries(whitelistedDirs.map((dir) => [dir, "allow"])),
       },
       question: "deny",
+      quiz: "deny",
+      queue: "deny",
       plan_enter: "deny",
       plan_exit: "deny",
       // mirrors github.com/github/gitignore Node.gitignore pattern for .env files
@@ -102,6 +115,7 @@ export namespace Agent {
         options: {},
         mode: "primary",
         native: true,
+        noCode: NO_CODE,
       },
       debug: {
         name: "debug",
@@ -118,6 +132,7 @@ export namespace Agent {
             read: "allow",
             glob: "allow",
             grep: "allow",
+            quiz: "allow",
             webfetch: "deny",
           }),
           user,
@@ -137,6 +152,7 @@ export namespace Agent {
           defaults,
           PermissionNext.fromConfig({
             question: "allow",
+            queue: "allow",
             plan_enter: "allow",
           }),
           user,
@@ -372,6 +388,10 @@ export namespace Agent {
       item.hidden = value.hidden ?? item.hidden
       item.name = value.name ?? item.name
       item.steps = value.steps ?? item.steps
+      item.workflow = value.workflow ?? item.workflow
+      if (value.no_code === false) item.noCode = undefined
+      else if (value.no_code !== undefined)
+        item.noCode = { ...(item.noCode ?? NO_CODE), ...(value.no_code === true ? {} : value.no_code) }
       item.options = mergeDeep(item.options, value.options ?? {})
       item.permission = PermissionNext.merge(item.permission, PermissionNext.fromConfig(value.permission ?? {}))
     }
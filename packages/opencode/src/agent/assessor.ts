@@ -1,9 +1,44 @@
+import z from "zod"
+
 export namespace Assessor {
-  export type Result = {
-    mode: "pair" | "debug" | "vibe" | "claw" | "adaptive"
-    confidence: number
-    reason: string
-    complexity: number
+  export const Mode = z.enum(["pair", "debug", "vibe", "claw", "adaptive"])
+  export type Mode = z.infer<typeof Mode>
+
+  export const Result = z
+    .object({
+      mode: Mode,
+      confidence: z.number().describe("Confidence in the selected mode, from 0 to 100"),
+      reason: z.string(),
+      complexity: z.number(),
+    })
+    .meta({
+      ref: "Assessment",
+    })
+  export type Result = z.infer<typeof Result>
+
+  // Repo facts about the paths a prompt references
+  export type Signals = {
+    files: string[]
+    untested: string[]
+    packages: string[]
+  }
+
+  // A prompt where the user picked a different mode than the assessed one
+  export type Override = {
+    assessed: Mode
+    chosen: string
+    terms: string[]
+    time: number
+  }
+
+  export type Context = {
+    signals?: Signals
+    history?: Override[]
+  }
+
+  export type Strategy = {
+    name: string
+    assess(prompt: string, context: Context): Promise<Result | undefined>
   }
 
   const LEARNING_KEYWORDS = [
@@ -24,6 +59,10 @@ export namespace Assessor {
 
   const FILE_REF = /[\w/]+\.\w{1,4}\b/g
 
+  export function references(prompt: string) {
+    return [...new Set(prompt.match(FILE_REF) ?? [])]
+  }
+
   function scopeWeight(prompt: string) {
     for (const [pattern, weight] of SCOPE_KEYWORDS) {
       if (pattern.test(prompt)) return weight
@@ -47,9 +86,7 @@ export namespace Assessor {
   }
 
   function taskCount(prompt: string) {
-    const parts = prompt
-      .split(/\band\b|;|\d+\.\s|\n-\s|\n\*\s/i)
-      .filter((s) => s.trim().length > 10)
+    const parts = prompt.split(/\band\b|;|\d+\.\s|\n-\s|\n\*\s/i).filter((s) => s.trim().length > 10)
     return parts.length
   }
 
@@ -58,58 +95,154 @@ export namespace Assessor {
     return Math.min(95, 50 + margin * 3)
   }
 
-  export function analyze(prompt: string): Result {
-    const result = ((): Result => {
-      if (hasLearningIntent(prompt)) {
-        return {
-          mode: "pair",
-          confidence: 90,
-          reason: "Learning intent detected in prompt",
-          complexity: complexity(prompt),
-        }
-      }
+  function spread(signals: Signals) {
+    return Math.max(0, signals.packages.length - 1) * 5
+  }
 
-      if (taskCount(prompt) >= 2) {
-        return {
-          mode: "vibe",
-          confidence: 85,
-          reason: "Multiple distinct tasks detected",
-          complexity: complexity(prompt),
-        }
-      }
+  function risk(signals: Signals) {
+    return signals.untested.length > 0 ? 3 : 0
+  }
 
-      const c = complexity(prompt)
-      const confidence = complexityConfidence(c)
+  function describe(c: number, signals?: Signals) {
+    if (!signals) return `${c}`
+    const notes = [
+      signals.packages.length > 1 ? `spans ${signals.packages.length} packages` : "",
+      signals.untested.length > 0 ? `${signals.untested.length} untested file(s)` : "",
+    ].filter(Boolean)
+    return notes.length ? `${c}: ${notes.join(", ")}` : `${c}`
+  }
 
-      if (c < 15) {
-        return {
-          mode: "claw",
-          confidence,
-          reason: `Low complexity score (${c})`,
-          complexity: c,
-        }
+  function classify(prompt: string, signals?: Signals): Result {
+    if (hasLearningIntent(prompt)) {
+      return {
+        mode: "pair",
+        confidence: 90,
+        reason: "Learning intent detected in prompt",
+        complexity: complexity(prompt),
       }
+    }
 
-      if (c <= 30) {
-        return {
-          mode: "vibe",
-          confidence,
-          reason: `Medium complexity score (${c})`,
-          complexity: c,
-        }
+    if (taskCount(prompt) >= 2) {
+      return {
+        mode: "vibe",
+        confidence: 85,
+        reason: "Multiple distinct tasks detected",
+        complexity: complexity(prompt),
       }
+    }
+
+    const c = complexity(prompt) + (signals ? spread(signals) + risk(signals) : 0)
+    const confidence = complexityConfidence(c)
 
+    if (c < 15) {
       return {
-        mode: "debug",
+        mode: "claw",
         confidence,
-        reason: `High complexity score (${c})`,
+        reason: `Low complexity score (${describe(c, signals)})`,
         complexity: c,
       }
-    })()
+    }
 
+    if (c <= 30) {
+      return {
+        mode: "vibe",
+        confidence,
+        reason: `Medium complexity score (${describe(c, signals)})`,
+        complexity: c,
+      }
+    }
+
+    return {
+      mode: "debug",
+      confidence,
+      reason: `High complexity score (${describe(c, signals)})`,
+      complexity: c,
+    }
+  }
+
+  function adapt(result: Result): Result {
     if (result.confidence < 75) {
-      return { mode: "adaptive", confidence: result.confidence, reason: `Low confidence (${result.confidence}%) — using adaptive mode to dynamically select`, complexity: result.complexity }
+      return {
+        mode: "adaptive",
+        confidence: result.confidence,
+        reason: `Low confidence (${result.confidence}%) — using adaptive mode to dynamically select`,
+        complexity: result.complexity,
+      }
     }
     return result
   }
+
+  const HISTORY_WINDOW = 20
+  const SIMILARITY = 0.5
+  const STOP_WORDS = new Set([
+    "the",
+    "and",
+    "for",
+    "with",
+    "this",
+    "that",
+    "from",
+    "into",
+    "can",
+    "you",
+    "please",
+    "some",
+    "all",
+    "our",
+    "its",
+  ])
+
+  /**
+   * Distinct lowercase words of a prompt, without short and filler words.
+   */
+  export function terms(prompt: string) {
+    const words = prompt.toLowerCase().split(/[^a-z0-9_]+/)
+    return [...new Set(words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word)))]
+  }
+
+  function similar(a: string[], b: string[]) {
+    if (a.length === 0 || b.length === 0) return false
+    const shared = a.filter((term) => b.includes(term)).length
+    return shared / new Set([...a, ...b]).size >= SIMILARITY
+  }
+
+  /**
+   * The mode the user has most often switched to from `assessed` on prompts
+   * sharing most of their terms with this one, if they did so at least twice
+   * and in most of those prompts.
+   */
+  export function preferred(prompt: string, assessed: Mode, history: Override[]) {
+    const words = terms(prompt)
+    const relevant = history
+      .filter((item) => item.assessed === assessed && similar(words, item.terms))
+      .slice(-HISTORY_WINDOW)
+    const counts = new Map<Mode, number>()
+    for (const item of relevant) {
+      const chosen = Mode.safeParse(item.chosen)
+      if (!chosen.success || chosen.data === assessed) continue
+      counts.set(chosen.data, (counts.get(chosen.data) ?? 0) + 1)
+    }
+    const [top] = [...counts.entries()].sort((a, b) => b[1] - a[1])
+    if (!top || top[1] < 2 || top[1] * 2 <= relevant.length) return
+    return { mode: top[0], count: top[1], total: relevant.length }
+  }
+
+  /**
+   * Keyword heuristic, adjusted by repo signals and the project's past
+   * overrides when given. This is the offline fallback for every strategy.
+   */
+  export function analyze(prompt: string, context: Context = {}): Result {
+    const result = adapt(classify(prompt, context.signals))
+    if (!context.history?.length) return result
+
+    const assessed = context.signals ? adapt(classify(prompt)).mode : result.mode
+    const preference = preferred(prompt, assessed, context.history)
+    if (!preference || preference.mode === result.mode) return result
+    return {
+      mode: preference.mode,
+      confidence: Math.min(95, 60 + preference.count * 5),
+      reason: `You switched from ${assessed} to ${preference.mode} in ${preference.count} of ${preference.total} similar prompts`,
+      complexity: result.complexity,
+    }
+  }
 }
@@ -0,0 +1,416 @@
+import path from "path"
+import { structuredPatch } from "diff"
+import { Instance } from "@/project/instance"
+import { Snapshot } from "@/snapshot"
+import { Standards } from "./standards"
+
+/**
+ * Deterministic checks for the mechanical parts of the standards: function
+ * length, parameter count, file length, nesting depth and banned names. They
+ * look only at changed lines and report violations in the shape the review
+ * agent uses, so a gated agent can fail fast before paying for a review.
+ */
+export namespace StandardsLint {
+  type Check = "function_lines" | "parameters" | "file_lines" | "nesting" | "short_names"
+
+  // The pack each check enforces and its default limit; the last one whose pack is on applies
+  const SOURCES: Record<Check, { standard: string; rule: string; limit: number }[]> = {
+    function_lines: [
+      { standard: "clean", rule: "functions", limit: 40 },
+      { standard: "bob", rule: "functions", limit: 20 },
+    ],
+    parameters: [
+      { standard: "clean", rule: "functions", limit: 3 },
+      { standard: "bob", rule: "functions", limit: 3 },
+    ],
+    nesting: [{ standard: "clean", rule: "functions", limit: 3 }],
+    file_lines: [{ standard: "clean", rule: "structure_and_organization", limit: 400 }],
+    short_names: [
+      { standard: "clean", rule: "naming", limit: 1 },
+      { standard: "bob", rule: "naming", limit: 1 },
+    ],
+  }
+
+  const SCRIPT = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"])
+  const BRACES = new Set([
+    ...SCRIPT,
+    ".go",
+    ".java",
+    ".kt",
+    ".rs",
+    ".c",
+    ".h",
+    ".cc",
+    ".cpp",
+    ".hpp",
+    ".cs",
+    ".swift",
+    ".php",
+    ".scala",
+    ".dart",
+  ])
+  const PYTHON = new Set([".py"])
+
+  // Words before `(...) {` that open a control block rather than a function body
+  const CONTROL = new Set(["if", "for", "while", "switch", "catch", "with", "foreach", "elseif"])
+  const BARE_CONTROL = new Set(["else", "try", "finally", "do", "catch"])
+  // Words that put a `{` in an expression, like `return {`
+  const EXPRESSION = new Set(["return", "throw", "yield", "await", "case", "in", "of", "typeof", "new", "default"])
+  const PYTHON_CONTROL = /^(?:if|elif|else|for|while|with|try|except|finally|match|case)\b.*:$/
+
+  interface Fn {
+    name?: string
+    start: number
+    end: number
+    params: string[]
+    nesting: number
+    deepest: number
+  }
+
+  /**
+   * Line numbers, in the new text, of lines the change added or modified.
+   */
+  export function changed(before: string, after: string) {
+    const result = new Set<number>()
+    const patch = structuredPatch("a", "b", before, after, "", "", { context: 0 })
+    for (const hunk of patch.hunks) {
+      let line = hunk.newStart
+      for (const item of hunk.lines) {
+        if (item.startsWith("+")) result.add(line++)
+        else if (!item.startsWith("-")) line++
+      }
+    }
+    return result
+  }
+
+  // Blank out comments and string contents, keeping newlines so offsets map to the same lines
+  function strip(text: string, python: boolean) {
+    let result = ""
+    let i = 0
+    while (i < text.length) {
+      const end = skip(text, i, python)
+      if (end === undefined) {
+        result += text[i++]
+        continue
+      }
+      result += text.slice(i, end).replace(/[^\n]/g, " ")
+      i = end
+    }
+    return result
+  }
+
+  function skip(text: string, i: number, python: boolean) {
+    const until = (token: string, from: number) => {
+      const index = text.indexOf(token, from)
+      return index === -1 ? text.length : index + token.length
+    }
+    if (python ? text[i] === "#" : text.startsWith("//", i)) return until("\n", i) - 1
+    if (!python && text.startsWith("/*", i)) return until("*/", i + 2)
+    if (python && (text.startsWith('"""', i) || text.startsWith("'''", i))) return until(text.slice(i, i + 3), i + 3)
+    const quote = text[i]
+    if (quote !== '"' && quote !== "'" && (python || quote !== "`")) return
+    let j = i + 1
+    while (j < text.length && text[j] !== quote) {
+      if (text[j] === "\\") j++
+      else if (text[j] === "\n" && quote !== "`") break
+      j++
+    }
+    return Math.min(j + 1, text.length)
+  }
+
+  function lineAt(starts: number[], offset: number) {
+    let low = 0
+    let high = starts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (starts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return low + 1
+  }
+
+  // Split a parameter list on its top-level commas
+  function split(text: string) {
+    const result: string[] = []
+    let depth = 0
+    let current = ""
+    for (const char of text) {
+      if ("([{<".includes(char)) depth++
+      // The `>` of an arrow closes nothing
+      if (")]}>".includes(char) && !(char === ">" && current.endsWith("="))) depth--
+      if (char === "," && depth === 0) {
+        result.push(current)
+        current = ""
+        continue
+      }
+      current += char
+    }
+    result.push(current)
+    return result.map((item) => item.trim()).filter(Boolean)
+  }
+
+  function opening(text: string, close: number) {
+    let depth = 0
+    for (let i = close; i >= 0; i--) {
+      if (text[i] === ")") depth++
+      if (text[i] === "(" && --depth === 0) return i
+    }
+    return -1
+  }
+
+  type Block = { line: number; kind: "function" | "control" | "other"; fn?: Fn; children: Block[] }
+
+  // A parameter list, optionally followed by a return type, at the end of the text
+  const SIGNATURE = /\)\s*(?:(?::|->)[^{};()]*|[\w.*&<>[\]]+(?:\s+[\w.*&<>[\],]+)*)?$/
+
+  // What a `{` opens, judged by the code just before it
+  function classify(text: string, brace: number): Omit<Block, "line" | "children"> {
+    const offset = Math.max(0, brace - 1000)
+    const head = text.slice(offset, brace).trimEnd()
+    const arrow = head.endsWith("=>")
+    const signature = arrow ? head.slice(0, -2).trimEnd() : head
+    const word = signature.match(/([\w$]+)$/)?.[1]
+    if (!arrow && word && BARE_CONTROL.has(word)) return { kind: "control" }
+    if (!arrow && word && EXPRESSION.has(word)) return { kind: "other" }
+    let close = signature.search(SIGNATURE)
+    if (close === -1) {
+      if (!arrow) return { kind: "other" }
+      // A single unparenthesized arrow parameter
+      const before = signature.slice(0, signature.length - (word?.length ?? 0))
+      return { kind: "function", fn: fn(before, word ? [word] : [], offset) }
+    }
+    let open = opening(signature, close)
+    if (open === -1) return { kind: "other" }
+    // Go's parenthesized results follow the real parameter list
+    const results = signature.slice(0, open).trimEnd()
+    if (results.endsWith(")") && opening(signature, results.length - 1) !== -1) {
+      close = results.length - 1
+      open = opening(signature, close)
+    }
+    const params = split(signature.slice(open + 1, close))
+    const before = signature
+      .slice(0, open)
+      .replace(/<[^<>]*>\s*$/, "")
+      .trimEnd()
+    const name = before.match(/([\w$]+)$/)?.[1]
+    if (arrow) return { kind: "function", fn: fn(before, params, offset) }
+    if (!name) return { kind: "other" }
+    if (CONTROL.has(name)) return { kind: "control" }
+    return { kind: "function", fn: fn(before.slice(0, -name.length), params, offset, name) }
+  }
+
+  function fn(before: string, params: string[], offset: number, name?: string): Fn {
+    const assigned = before.match(/([\w$]+)\s*(?::[^=]*)?=\s*(?:async\s*)?$/)?.[1]
+    return {
+      name: name === "function" ? assigned : (name ?? assigned),
+      start: offset + before.length,
+      end: 0,
+      params: params.filter((item) => !item.startsWith("this:") && !item.startsWith("this ")),
+      nesting: 0,
+      deepest: 0,
+    }
+  }
+
+  function braces(text: string): Fn[] {
+    const starts = [0, ...[...text.matchAll(/\n/g)].map((match) => match.index! + 1)]
+    const root: Block = { line: 0, kind: "other", children: [] }
+    const stack: Block[] = [root]
+    const result: Fn[] = []
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "{") {
+        const block: Block = { line: lineAt(starts, i), ...classify(text, i), children: [] }
+        if (block.fn) block.fn.start = lineAt(starts, block.fn.start)
+        stack[stack.length - 1].children.push(block)
+        stack.push(block)
+      }
+      if (text[i] === "}" && stack.length > 1) {
+        const block = stack.pop()!
+        if (!block.fn) continue
+        block.fn.end = lineAt(starts, i)
+        const [nesting, deepest] = depth(block)
+        block.fn.nesting = nesting
+        block.fn.deepest = deepest
+        result.push(block.fn)
+      }
+    }
+    return result
+  }
+
+  // Deepest run of control blocks inside a function, not counting nested functions
+  function depth(block: Block): [number, number] {
+    let best: [number, number] = [0, block.line]
+    for (const child of block.children) {
+      if (child.kind === "function") continue
+      const [nested, line] = depth(child)
+      const total = nested + (child.kind === "control" ? 1 : 0)
+      if (total > best[0]) best = [total, line]
+    }
+    return best
+  }
+
+  function python(text: string): Fn[] {
+    const lines = text.split("\n")
+    const indent = (line: string) => line.length - line.trimStart().length
+    const result: Fn[] = []
+    lines.forEach((line, index) => {
+      const match = line.match(/^(\s*)(?:async\s+)?def\s+(\w+)\s*\(/)
+      if (!match) return
+      const rest = lines.slice(index).join("\n")
+      const open = rest.indexOf("(")
+      let close = open
+      for (let depth = 0; close < rest.length; close++) {
+        if (rest[close] === "(") depth++
+        if (rest[close] === ")" && --depth === 0) break
+      }
+      const params = split(rest.slice(open + 1, close)).filter((item, i) => i > 0 || !/^(self|cls)\b/.test(item))
+      let end = index
+      let nesting = 0
+      let deepest = index + 1
+      const controls: number[] = []
+      for (let i = index + 1; i < lines.length; i++) {
+        const trimmed = lines[i].trim()
+        if (!trimmed) continue
+        const level = indent(lines[i])
+        if (level <= match[1].length) break
+        end = i
+        while (controls.length && controls[controls.length - 1] >= level) controls.pop()
+        if (!PYTHON_CONTROL.test(trimmed)) continue
+        controls.push(level)
+        if (controls.length > nesting) {
+          nesting = controls.length
+          deepest = i + 1
+        }
+      }
+      result.push({ name: match[2], start: index + 1, end: end + 1, params, nesting, deepest })
+    })
+    return result
+  }
+
+  // Names declared on a line, for the naming checks
+  function declared(line: string, ext: string) {
+    if (SCRIPT.has(ext)) {
+      // Loop counters and caught errors are the tiny scopes short names are fine in
+      if (/\bfor\s*\(/.test(line)) return []
+      return [...line.matchAll(/\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)/g)].map((match) => match[1])
+    }
+    if (ext === ".go") {
+      if (/^\s*for\b/.test(line)) return []
+      return [...line.matchAll(/\b(?:var\s+)?([A-Za-z_]\w*)\s*:?=(?!=)/g)]
+        .filter((match) => match[0].includes(":=") || match[0].startsWith("var"))
+        .map((match) => match[1])
+    }
+    if (PYTHON.has(ext)) return [...line.matchAll(/^\s*([A-Za-z_]\w*)\s*=(?!=)/g)].map((match) => match[1])
+    return []
+  }
+
+  // A parameter's name, for languages that put it first
+  function param(text: string) {
+    return text
+      .replace(/^(?:\.\.\.|\*{1,2}|(?:public|private|protected|readonly)\s+)*/, "")
+      .match(/^[A-Za-z_$][\w$]*/)?.[0]
+  }
+
+  function settings(config: Standards.Config, check: Check) {
+    const source = SOURCES[check].findLast((item) => config.standards[item.standard])
+    const limit = config.lint?.[check]
+    if (!source || limit === false) return
+    return { ...source, limit: limit ?? source.limit }
+  }
+
+  /**
+   * Check one changed file against the settings that apply to it.
+   */
+  export function file(input: Pick<Snapshot.FileDiff, "file" | "before" | "after">, config: Standards.Config) {
+    const ext = path.extname(input.file).toLowerCase()
+    const result: Standards.Violation[] = []
+    if (!BRACES.has(ext) && !PYTHON.has(ext)) return result
+    const lines = changed(input.before, input.after)
+    if (!lines.size) return result
+    const resolved = Standards.resolve(config, input.file)
+    const report = (line: number | undefined, standard: string, rule: string, explanation: string) =>
+      result.push({ file: input.file, ...(line ? { line } : {}), standard, rule, explanation })
+
+    const total = input.after.split("\n").length - (input.after.endsWith("\n") ? 1 : 0)
+    const fileLines = settings(resolved, "file_lines")
+    if (fileLines && total > fileLines.limit)
+      report(
+        undefined,
+        fileLines.standard,
+        fileLines.rule,
+        `File is ${total} lines long; the limit is ${fileLines.limit}.`,
+      )
+
+    const stripped = strip(input.after, PYTHON.has(ext))
+    const fns = PYTHON.has(ext) ? python(stripped) : braces(stripped)
+    const touched = (item: Fn) => [...lines].some((line) => line >= item.start && line <= item.end)
+    const label = (item: Fn) => (item.name ? `\`${item.name}\`` : "This function")
+    const length = settings(resolved, "function_lines")
+    const params = settings(resolved, "parameters")
+    const nesting = settings(resolved, "nesting")
+    for (const item of fns.toSorted((a, b) => a.start - b.start)) {
+      if (!touched(item)) continue
+      const size = item.end - item.start + 1
+      // Anonymous callbacks, like test bodies, are judged by their nesting only
+      if (length && item.name && size > length.limit)
+        report(
+          item.start,
+          length.standard,
+          length.rule,
+          `${label(item)} is ${size} lines long; the limit is ${length.limit}.`,
+        )
+      if (params && item.name && item.params.length > params.limit)
+        report(
+          item.start,
+          params.standard,
+          params.rule,
+          `${label(item)} takes ${item.params.length} parameters; the limit is ${params.limit}.`,
+        )
+      if (nesting && item.nesting > nesting.limit)
+        report(
+          item.deepest,
+          nesting.standard,
+          nesting.rule,
+          `${label(item)} nests blocks ${item.nesting} deep; the limit is ${nesting.limit}.`,
+        )
+    }
+
+    const short = settings(resolved, "short_names")
+    const banned = new Set(resolved.lint?.banned ?? [])
+    const text = stripped.split("\n")
+    // Parameter names come first only in scripts and Python
+    const named = SCRIPT.has(ext) || PYTHON.has(ext)
+    const names = (line: number) => [
+      ...declared(text[line - 1] ?? "", ext),
+      ...fns
+        .filter((item) => item.name && item.start === line)
+        .flatMap((item) => [item.name!, ...(named ? item.params.map(param) : [])])
+        .filter((name) => name !== undefined),
+    ]
+    for (const line of [...lines].toSorted((a, b) => a - b)) {
+      for (const name of new Set(names(line))) {
+        if (banned.has(name)) report(line, "custom", "banned_identifiers", `\`${name}\` is a banned identifier.`)
+        else if (short && name !== "_" && name.length <= short.limit)
+          report(line, short.standard, short.rule, `\`${name}\` is too short to say what it holds.`)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Check every changed file, with the project's standards.yml unless a
+   * config is given.
+   */
+  export async function check(diffs: Snapshot.FileDiff[], config?: Standards.Config) {
+    const standards = config ?? (await Standards.load(Instance.directory))
+    return diffs.filter((item) => item.status !== "deleted").flatMap((item) => file(item, standards))
+  }
+
+  /**
+   * Check the changes made to the working tree since a snapshot.
+   */
+  export async function since(from: string) {
+    const to = await Snapshot.track()
+    if (!to) return []
+    return check(await Snapshot.diffFull(from, to))
+  }
+}
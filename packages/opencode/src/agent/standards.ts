@@ -1,129 +1,408 @@
 import z from "zod"
 import path from "path"
+import matter from "gray-matter"
+import { Config as AppConfig } from "@/config/config"
+import { ConfigMarkdown } from "@/config/markdown"
+import { Instance } from "@/project/instance"
+import { Filesystem } from "@/util/filesystem"
+import { Log } from "@/util/log"
 
 export namespace Standards {
-  export const Config = z.object({
-    standards: z.object({
-      clean: z.boolean().default(true),
-      solid: z.boolean().default(true),
-      oop: z.boolean().default(false),
-      bob: z.boolean().default(false),
-      typescript_react: z.boolean().default(false),
-      ddd: z.boolean().default(false),
-    }),
-    custom: z.array(z.string()).default([]),
-  })
+  const log = Log.create({ service: "standards" })
+
+  const Limit = z.union([z.number().int().positive(), z.literal(false)])
+
+  export const Lint = z
+    .object({
+      function_lines: Limit.optional().describe("Longest a function may be, in lines; false turns the check off"),
+      parameters: Limit.optional().describe("Most parameters a function may take; false turns the check off"),
+      file_lines: Limit.optional().describe("Longest a file may be, in lines; false turns the check off"),
+      nesting: Limit.optional().describe("Deepest blocks may nest inside a function; false turns the check off"),
+      short_names: Limit.optional().describe(
+        "Declared names this short or shorter are flagged; false turns the check off",
+      ),
+      banned: z.array(z.string()).optional().describe("Identifiers that may not be declared"),
+    })
+    .strict()
+    .describe("Limits for the deterministic checks that run before the review agent")
+  export type Lint = z.infer<typeof Lint>
+
+  export const Override = z
+    .object({
+      paths: z
+        .array(z.string())
+        .min(1)
+        .describe("Globs, relative to the project, of the files this override applies to (e.g. src/domain/**)"),
+      standards: z.record(z.string(), z.boolean()).default({}).describe("Pack id to enabled, for matching files only"),
+      custom: z.array(z.string()).default([]).describe("Extra rules for matching files only"),
+      lint: Lint.optional(),
+    })
+    .strict()
+  export type Override = z.infer<typeof Override>
+
+  export const Config = z
+    .object({
+      standards: z
+        .record(z.string(), z.boolean())
+        .default({})
+        .describe("Pack id to enabled; packs left out use their default"),
+      custom: z.array(z.string()).default([]).describe("Extra rules, in prose, that apply to every file"),
+      lint: Lint.optional(),
+      overrides: z
+        .array(Override)
+        .default([])
+        .describe("Per-directory settings, applied in order on top of the ones above"),
+    })
+    .strict()
+    .meta({
+      ref: "StandardsConfig",
+    })
 
   export type Config = z.infer<typeof Config>
 
+  export const SCHEMA_URL = "https://opencode.ai/standards.json"
+
+  const BUILTIN: Record<string, { description: string; enabled: boolean }> = {
+    clean: { description: "Naming, functions, structure, error handling", enabled: true },
+    solid: { description: "SRP, OCP, LSP, ISP, DIP", enabled: true },
+    oop: { description: "Immutable objects, no static/nulls/getters", enabled: false },
+    bob: { description: "Functions <20 lines, Law of Demeter, TDD", enabled: false },
+    typescript_react: { description: "Tailwind-only, named params, strong types", enabled: false },
+    ddd: { description: "Aggregates, bounded contexts, domain events", enabled: false },
+  }
+
   const DEFAULTS: Config = Config.parse({
-    standards: {},
+    standards: Object.fromEntries(Object.entries(BUILTIN).map(([id, item]) => [id, item.enabled])),
     custom: [],
+    overrides: [],
   })
 
-  // Parse a simple two-level YAML of the form used by standards.yml.
-  // Supports boolean scalars and string list items only — no external deps.
-  function parseYaml(text: string): Record<string, unknown> {
-    const result: Record<string, unknown> = {}
-    let currentKey: string | null = null
-    let currentList: string[] | null = null
-
-    for (const raw of text.split("\n")) {
-      const line = raw.replace(/\r$/, "")
-
-      // Skip comments and blank lines
-      if (line.trim() === "" || line.trim().startsWith("#")) continue
-
-      // Top-level key (no leading whitespace, ends with colon)
-      const topMatch = line.match(/^([a-zA-Z_][a-zA-Z0-9_]*):\s*(.*)$/)
-      if (topMatch && !line.startsWith(" ") && !line.startsWith("\t")) {
-        if (currentKey !== null && currentList !== null) result[currentKey] = currentList
-        currentKey = topMatch[1]
-        currentList = null
-        const val = topMatch[2].trim()
-        if (val !== "") {
-          result[currentKey] = parsePrimitive(val)
-          currentKey = null
-        } else {
-          // value is on following lines — start nested object or list
-          result[currentKey] = {}
-        }
-        continue
-      }
+  export const Rule = z.object({
+    id: z.string(),
+    title: z.string(),
+  })
+  export type Rule = z.infer<typeof Rule>
 
-      // Nested key under a top-level object
-      const nestedMatch = line.match(/^[ \t]+([a-zA-Z_][a-zA-Z0-9_]*):\s*(.*)$/)
-      if (nestedMatch && currentKey !== null && currentList === null) {
-        const parent = result[currentKey]
-        if (parent !== null && typeof parent === "object" && !Array.isArray(parent)) {
-          ;(parent as Record<string, unknown>)[nestedMatch[1]] = parsePrimitive(nestedMatch[2].trim())
-        }
-        continue
-      }
+  export const Pack = z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      description: z.string(),
+      source: z.enum(["builtin", "config", "skill", "project"]),
+      location: z.string(),
+      rules: Rule.array(),
+      enabled: z.boolean().describe("Whether reviews check against this pack"),
+      content: z.string(),
+    })
+    .meta({
+      ref: "StandardsPack",
+    })
+  export type Pack = z.infer<typeof Pack>
 
-      // List item under a top-level key
-      const listMatch = line.match(/^[ \t]+-\s+(.+)$/)
-      if (listMatch && currentKey !== null) {
-        if (currentList === null) {
-          currentList = []
-          result[currentKey] = currentList
-        }
-        currentList.push(listMatch[1].replace(/^["']|["']$/g, ""))
-        continue
+  const PACK_GLOB = new Bun.Glob("*.md")
+
+  function slug(text: string) {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_|_$/g, "")
+  }
+
+  /**
+   * Build a pack from markdown: the `# ` heading names the pack and every
+   * `## ` section is a rule, identified by its slugged heading.
+   */
+  export function pack(input: {
+    id: string
+    source: Pack["source"]
+    location: string
+    text: string
+    data?: Record<string, unknown>
+  }): Pack {
+    const data = input.data ?? {}
+    const heading = input.text.match(/^# (.+)$/m)?.[1].trim()
+    const rules = [...input.text.matchAll(/^## (.+)$/gm)].map((match) => ({
+      id: slug(match[1]),
+      title: match[1].trim(),
+    }))
+    const builtin = input.source === "builtin" ? BUILTIN[input.id] : undefined
+    return {
+      id: input.id,
+      name: typeof data.name === "string" ? data.name : (heading ?? input.id),
+      description: typeof data.description === "string" ? data.description : (builtin?.description ?? ""),
+      source: input.source,
+      location: input.location,
+      rules,
+      // Packs dropped into the project are meant to apply; shared ones are opt-in
+      enabled: typeof data.enabled === "boolean" ? data.enabled : (builtin?.enabled ?? input.source === "project"),
+      content: input.text.trim(),
+    }
+  }
+
+  async function scan(dir: string, source: Pack["source"]) {
+    const result: Pack[] = []
+    if (!(await Filesystem.isDir(dir))) return result
+    for await (const match of PACK_GLOB.scan({ cwd: dir, absolute: true, onlyFiles: true, followSymlinks: true })) {
+      const md = await ConfigMarkdown.parse(match).catch((error) => {
+        log.error("failed to load standards pack", { path: match, error })
+        return undefined
+      })
+      if (!md) continue
+      const id = typeof md.data.id === "string" ? slug(md.data.id) : slug(path.basename(match, ".md"))
+      result.push(pack({ id, source, location: match, text: md.content, data: md.data }))
+    }
+    return result.sort((a, b) => a.location.localeCompare(b.location))
+  }
+
+  /**
+   * The packs shipped in agent/standards/.
+   */
+  export async function builtins() {
+    const order = Object.keys(BUILTIN)
+    const list = await scan(path.join(import.meta.dirname, "standards"), "builtin")
+    return list.sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id))
+  }
+
+  const state = Instance.state(async () => {
+    const { Skill } = await import("@/skill")
+    const packs: Record<string, Pack> = {}
+    const add = (list: Pack[]) => {
+      for (const item of list) {
+        if (packs[item.id]) log.info("pack overridden", { id: item.id, by: item.location })
+        packs[item.id] = item
       }
     }
+    // Later sources override earlier ones with the same id
+    add(await builtins())
+    for (const dir of await AppConfig.directories()) add(await scan(path.join(dir, "standards"), "config"))
+    // Skills pulled from configured URLs land here too
+    for (const dir of await Skill.dirs()) add(await scan(path.join(dir, "standards"), "skill"))
+    add(await scan(path.join(Instance.directory, ".humancode", "standards"), "project"))
+    return packs
+  })
 
-    return result
+  /**
+   * Every standards pack available to the project: built in, from config
+   * directories' standards/, from skill folders' standards/, and from the
+   * project's .humancode/standards/.
+   */
+  export async function packs() {
+    return Object.values(await state())
   }
 
-  function parsePrimitive(val: string): unknown {
-    if (val === "true") return true
-    if (val === "false") return false
-    const num = Number(val)
-    if (!isNaN(num) && val !== "") return num
-    return val.replace(/^["']|["']$/g, "")
+  /**
+   * Whether a pack is on: as set in standards.yml, or else the pack's default.
+   */
+  export function enabled(config: Config, item: Pack) {
+    return config.standards[item.id] ?? item.enabled
   }
 
-  function serializeYaml(config: Config): string {
-    const lines: string[] = []
-    lines.push("standards:")
-    for (const [key, value] of Object.entries(config.standards)) {
-      lines.push(`  ${key}: ${value}`)
+  // gray-matter's YAML engine (js-yaml), whose errors carry the line and column
+  const yaml = (
+    matter as unknown as {
+      engines: { yaml: { parse(text: string): unknown; stringify(data: object): string } }
     }
-    lines.push("custom:")
-    for (const rule of config.custom) {
-      lines.push(`  - "${rule.replace(/"/g, '\\"')}"`)
+  ).engines.yaml
+
+  /**
+   * Best-effort 1-based line of a key path in block-style YAML, so schema
+   * errors can point at the offending entry.
+   */
+  function locate(text: string, keys: PropertyKey[]) {
+    const lines = text.split("\n")
+    let start = 0
+    let indent = -1
+    let result: number | undefined
+    for (const key of keys) {
+      let found = -1
+      let items = 0
+      let level: number | undefined
+      for (let i = start; i < lines.length; i++) {
+        const trimmed = lines[i].trimStart()
+        if (!trimmed || trimmed.startsWith("#")) continue
+        const depth = lines[i].length - trimmed.length
+        if (i > start && depth <= indent) break
+        if (typeof key === "number") {
+          if (!trimmed.startsWith("-")) continue
+          level ??= depth
+          if (depth !== level) continue
+          if (items++ < key) continue
+          found = i
+          indent = depth
+          break
+        }
+        // A list item's first key shares the line with its dash
+        const item = trimmed.match(/^-\s+/)?.[0].length ?? 0
+        const rest = trimmed.slice(item)
+        const name = rest.match(/^(["']?)([^"':]+)\1\s*:/)?.[2]
+        if (name !== String(key)) continue
+        found = i
+        indent = depth + item
+        break
+      }
+      if (found === -1) break
+      result = found + 1
+      start = typeof key === "number" ? found : found + 1
+    }
+    return result
+  }
+
+  /**
+   * Parse the text of a standards.yml. Syntax errors and schema errors are
+   * thrown the way Config reports opencode.json problems, with line numbers.
+   */
+  export function parse(text: string, filepath: string): Config {
+    let data: unknown
+    try {
+      data = yaml.parse(text) ?? {}
+    } catch (error) {
+      throw new AppConfig.JsonError(
+        { path: filepath, message: error instanceof Error ? error.message : String(error) },
+        { cause: error },
+      )
     }
-    return lines.join("\n") + "\n"
+    const parsed = Config.safeParse(data)
+    if (parsed.success) return parsed.data
+    throw new AppConfig.InvalidError(
+      {
+        path: filepath,
+        issues: parsed.error.issues.map((issue) => {
+          const line = locate(text, issue.path)
+          return line ? { ...issue, message: `${issue.message} (line ${line})` } : issue
+        }),
+      },
+      { cause: parsed.error },
+    )
   }
 
   export async function load(directory: string): Promise<Config> {
-    const file = Bun.file(path.join(directory, ".humancode", "standards.yml"))
+    const filepath = path.join(directory, ".humancode", "standards.yml")
+    const file = Bun.file(filepath)
     const exists = await file.exists()
     if (!exists) return DEFAULTS
-    const text = await file.text()
-    const raw = parseYaml(text)
-    return Config.parse(raw)
+    const raw = parse(await file.text(), filepath)
+    return { ...raw, standards: { ...DEFAULTS.standards, ...raw.standards } }
   }
 
   export async function save(directory: string, config: Config): Promise<void> {
     const dir = path.join(directory, ".humancode")
-    await Bun.write(path.join(dir, "standards.yml"), serializeYaml(config))
+    const data: Partial<Config> = { standards: config.standards }
+    if (config.custom.length) data.custom = config.custom
+    if (config.lint) data.lint = config.lint
+    if (config.overrides.length) data.overrides = config.overrides
+    await Bun.write(
+      path.join(dir, "standards.yml"),
+      `# yaml-language-server: $schema=${SCHEMA_URL}\n` + yaml.stringify(data),
+    )
+  }
+
+  /**
+   * The settings that apply to one file: the top-level ones with every
+   * matching override layered on in order. `file` is relative to the project.
+   */
+  export function resolve(config: Config, file: string): Config {
+    const normalized = file.split(path.sep).join("/")
+    return config.overrides
+      .filter((item) => item.paths.some((pattern) => new Bun.Glob(pattern).match(normalized)))
+      .reduce(
+        (result, item) => ({
+          ...result,
+          standards: { ...result.standards, ...item.standards },
+          custom: [...result.custom, ...item.custom],
+          lint: item.lint ? { ...result.lint, ...item.lint } : result.lint,
+        }),
+        config,
+      )
   }
 
-  const STANDARD_KEYS: (keyof Config["standards"])[] = ["clean", "solid", "oop", "bob", "typescript_react", "ddd"]
+  // Label the pack and each rule with the ids the review verdict refers to
+  function render(item: Pack, scope?: string) {
+    const body = item.content.replace(/^## (.+)$/gm, (_, title: string) => `## ${title} (rule: ${slug(title)})`)
+    const heading = [`# ${item.name} (standard: ${item.id})`, scope].filter(Boolean).join("\n\n")
+    return /^# .+$/m.test(body) ? body.replace(/^# .+$/m, () => heading) : `${heading}\n\n${body}`
+  }
+
+  function globs(list: Override[]) {
+    return list.flatMap((item) => item.paths.map((pattern) => `\`${pattern}\``)).join(", ")
+  }
 
-  export async function prompt(config: Config): Promise<string> {
+  export async function prompt(config: Config, available?: Pack[]): Promise<string> {
     const parts: string[] = []
-    for (const key of STANDARD_KEYS) {
-      if (!config.standards[key]) continue
-      const file = Bun.file(path.join(import.meta.dirname, "standards", `${key}.md`))
-      const text = await file.text()
-      parts.push(text)
+    for (const item of available ?? (await builtins())) {
+      const on = enabled(config, item)
+      // Overrides that flip this pack for some paths
+      const flipped = config.overrides.filter((o) => o.standards[item.id] !== undefined && o.standards[item.id] !== on)
+      if (!on && !flipped.length) continue
+      if (!flipped.length) {
+        parts.push(render(item))
+        continue
+      }
+      const scope = on
+        ? `Does not apply to files matching ${globs(flipped)}.`
+        : `Applies only to files matching ${globs(flipped)}.`
+      parts.push(render(item, scope))
     }
     for (const rule of config.custom) {
       parts.push(rule)
     }
+    for (const item of config.overrides) {
+      for (const rule of item.custom) parts.push(`For files matching ${globs([item])}: ${rule}`)
+    }
     return parts.join("\n\n")
   }
+
+  // Agents that review, or self-review, against the project's standards
+  const GATED_AGENTS = new Set(["review", "vibe", "claw"])
+
+  export function gated(agent: string): boolean {
+    return GATED_AGENTS.has(agent)
+  }
+
+  /**
+   * System prompt section with the enabled standards from the project's
+   * .humancode/standards.yml, for the review agent and quality-gated modes.
+   */
+  export async function system(agent: string): Promise<string[]> {
+    if (!gated(agent)) return []
+    const text = await prompt(await load(Instance.directory), await packs())
+    if (!text) return []
+    return [["<quality-standards>", text, "</quality-standards>"].join("\n")]
+  }
+
+  export const Violation = z
+    .object({
+      file: z.string(),
+      line: z.number().int().optional(),
+      standard: z.string(),
+      rule: z.string(),
+      explanation: z.string(),
+    })
+    .meta({
+      ref: "ReviewViolation",
+    })
+  export type Violation = z.infer<typeof Violation>
+
+  export const Verdict = z.object({
+    verdict: z.enum(["pass", "fail"]),
+    violations: Violation.array().default([]),
+  })
+  export type Verdict = z.infer<typeof Verdict>
+
+  /**
+   * Extract the review agent's `{ verdict, violations }` JSON from its reply.
+   * The object may be wrapped in a code fence or surrounded by prose.
+   */
+  export function parseVerdict(text: string): Verdict | undefined {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+    const candidate = fenced?.[1] ?? text
+    const start = candidate.indexOf("{")
+    const end = candidate.lastIndexOf("}")
+    if (start === -1 || end <= start) return undefined
+    try {
+      const result = Verdict.safeParse(JSON.parse(candidate.slice(start, end + 1)))
+      return result.success ? result.data : undefined
+    } catch {
+      return undefined
+    }
+  }
 }
@@ -1,27 +1,17 @@
-import { createMemo, createSignal } from "solid-js"
+import { createMemo, createResource, createSignal } from "solid-js"
 import { useDialog } from "@tui/ui/dialog"
 import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
 import { useTheme } from "@tui/context/theme"
 import { TextAttributes } from "@opentui/core"
 import { Keybind } from "@/util/keybind"
 import { Standards } from "@/agent/standards"
+import { useSDK } from "@tui/context/sdk"
 
-const CATALOG: { key: keyof Standards.Config["standards"]; label: string; description: string }[] = [
-  { key: "clean", label: "Clean Code Foundations", description: "Naming, functions, structure, error handling" },
-  { key: "solid", label: "SOLID Principles", description: "SRP, OCP, LSP, ISP, DIP" },
-  { key: "oop", label: "Elegant Objects (OOP)", description: "Immutable objects, no static/nulls/getters" },
-  { key: "bob", label: "Clean Code (Bob Martin)", description: "Functions <20 lines, Law of Demeter, TDD" },
-  { key: "typescript_react", label: "TypeScript & React", description: "Tailwind-only, named params, strong types" },
-  { key: "ddd", label: "Domain-Driven Design", description: "Aggregates, bounded contexts, domain events" },
-]
-
-const DEFAULTS: Record<keyof Standards.Config["standards"], boolean> = {
-  clean: true,
-  solid: true,
-  oop: false,
-  bob: false,
-  typescript_react: false,
-  ddd: false,
+const CATEGORY: Record<Standards.Pack["source"], string> = {
+  builtin: "Built-in",
+  config: "Config",
+  skill: "Skills",
+  project: "Project",
 }
 
 function CheckIcon(props: { checked: boolean }) {
@@ -34,15 +24,23 @@ function CheckIcon(props: { checked: boolean }) {
 
 export function DialogStandards(props: { directory: string }) {
   const dialog = useDialog()
+  const sdk = useSDK()
 
-  const [enabled, setEnabled] = createSignal<Record<string, boolean>>({ ...DEFAULTS })
+  const [packs] = createResource(async () => {
+    const result = await sdk.client.app.standards()
+    return result.data ?? []
+  })
+  // Toggles made in this dialog, on top of each pack's current state
+  const [toggled, setToggled] = createSignal<Record<string, boolean>>({})
+  const enabled = (pack: Standards.Pack) => toggled()[pack.id] ?? pack.enabled
 
   const options = createMemo<DialogSelectOption<string>[]>(() =>
-    CATALOG.map((item) => ({
-      value: item.key,
-      title: item.label,
-      description: item.description,
-      footer: <CheckIcon checked={!!enabled()[item.key]} />,
+    (packs() ?? []).map((pack) => ({
+      value: pack.id,
+      title: pack.name,
+      description: pack.description,
+      category: CATEGORY[pack.source],
+      footer: <CheckIcon checked={enabled(pack)} />,
     })),
   )
 
@@ -51,18 +49,19 @@ export function DialogStandards(props: { directory: string }) {
       keybind: Keybind.parse("space")[0],
       title: "toggle",
       onTrigger: (option: DialogSelectOption<string>) => {
-        const key = option.value
-        setEnabled((prev) => ({ ...prev, [key]: !prev[key] }))
+        const pack = packs()?.find((item) => item.id === option.value)
+        if (!pack) return
+        setToggled((prev) => ({ ...prev, [pack.id]: !enabled(pack) }))
       },
     },
     {
       keybind: Keybind.parse("return")[0],
       title: "confirm",
       onTrigger: async (_option: DialogSelectOption<string>) => {
-        const current = enabled()
+        const current = await Standards.load(props.directory)
         const config: Standards.Config = Standards.Config.parse({
-          standards: current,
-          custom: [],
+          ...current,
+          standards: Object.fromEntries((packs() ?? []).map((pack) => [pack.id, enabled(pack)])),
         })
         await Standards.save(props.directory, config)
         dialog.clear()
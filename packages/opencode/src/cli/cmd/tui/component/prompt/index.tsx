@@ -32,7 +32,6 @@ import { useToast } from "../../ui/toast"
 import { useKV } from "../../context/kv"
 import { useTextareaKeybindings } from "../textarea-keybindings"
 import { DialogSkill } from "../dialog-skill"
-import { Assessor } from "@/agent/assessor"
 import { DialogStandards } from "../dialog-standards"
 import path from "path"
 
@@ -572,13 +571,20 @@ export function Prompt(props: PromptProps) {
     const currentMode = store.mode
     const variant = local.model.variant.current()
 
-    // Auto-select mode if user hasn't manually chosen
-    if (!local.agent.manuallySelected()) {
-      const result = Assessor.analyze(inputText)
-      local.agent.set(result.mode)
+    // Auto-select mode if user hasn't manually chosen. The assessment is sent
+    // along with the agent so the server records it instead of assessing again.
+    const assessment = local.agent.manuallySelected()
+      ? undefined
+      : await sdk.client.session
+          .assess({ sessionID, text: inputText })
+          .then((x) => x.data)
+          .catch(() => undefined)
+    if (assessment) {
+      local.agent.set(assessment.mode)
       // Reset manual selection flag since this was auto-selected
       local.agent.resetManualSelection()
     }
+    const assessed = assessment?.mode === local.agent.current().name ? assessment : undefined
 
     // When entering vibe or claw mode, ensure standards are configured
     const currentAgentName = local.agent.current().name
@@ -640,6 +646,8 @@ export function Prompt(props: PromptProps) {
           ...selectedModel,
           messageID,
           agent: local.agent.current().name,
+          assessment: assessed,
+          override: local.agent.manuallySelected(),
           model: selectedModel,
           variant,
           parts: [
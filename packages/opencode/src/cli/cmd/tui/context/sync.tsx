@@ -6,6 +6,7 @@ import type {
   Part,
   Config,
   Todo,
+  QueueTask,
   Command,
   PermissionRequest,
   QuestionRequest,
@@ -57,6 +58,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       todo: {
         [sessionID: string]: Todo[]
       }
+      queue: {
+        [sessionID: string]: QueueTask[]
+      }
       message: {
         [sessionID: string]: Message[]
       }
@@ -92,6 +96,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       session_status: {},
       session_diff: {},
       todo: {},
+      queue: {},
       message: {},
       part: {},
       lsp: [],
@@ -189,6 +194,10 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           setStore("todo", event.properties.sessionID, event.properties.todos)
           break
 
+        case "session.queue.updated":
+          setStore("queue", event.properties.sessionID, reconcile(event.properties.tasks))
+          break
+
         case "session.diff":
           setStore("session_diff", event.properties.sessionID, event.properties.diff)
           break
@@ -459,11 +468,12 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
         },
         async sync(sessionID: string) {
           if (fullSyncedSessions.has(sessionID)) return
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, queue] = await Promise.all([
             sdk.client.session.get({ sessionID }, { throwOnError: true }),
             sdk.client.session.messages({ sessionID, limit: 100 }),
             sdk.client.session.todo({ sessionID }),
             sdk.client.session.diff({ sessionID }),
+            sdk.client.session.queue({ sessionID }),
           ])
           setStore(
             produce((draft) => {
@@ -471,6 +481,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
               if (match.found) draft.session[match.index] = session.data!
               if (!match.found) draft.session.splice(match.index, 0, session.data!)
               draft.todo[sessionID] = todo.data ?? []
+              draft.queue[sessionID] = queue.data ?? []
               draft.message[sessionID] = messages.data!.map((x) => x.info)
               for (const message of messages.data!) {
                 draft.part[message.info.id] = message.parts
@@ -0,0 +1,96 @@
+import { createMemo, onMount } from "solid-js"
+import { useSDK } from "@tui/context/sdk"
+import { useSync } from "@tui/context/sync"
+import { useRoute } from "@tui/context/route"
+import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
+import { useDialog } from "../../ui/dialog"
+import { Keybind } from "@/util/keybind"
+import { describeTask, useQueueStatus } from "./queue"
+
+export function DialogQueue(props: { sessionID: string }) {
+  const sdk = useSDK()
+  const sync = useSync()
+  const route = useRoute()
+  const dialog = useDialog()
+  const status = useQueueStatus()
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const tasks = createMemo(() => sync.data.queue[props.sessionID] ?? [])
+
+  const options = createMemo((): DialogSelectOption<string>[] =>
+    tasks().map((task) => ({
+      value: task.id,
+      title: task.title,
+      description: describeTask(task),
+      gutter: <text fg={status.color(task.status)}>{status.icon(task.status)}</text>,
+      footer: task.agent,
+    })),
+  )
+
+  const move = (taskID: string, offset: number) => {
+    const order = tasks().map((task) => task.id)
+    const index = order.indexOf(taskID)
+    const target = index + offset
+    if (index === -1 || target < 0 || target >= order.length) return
+    order.splice(index, 1)
+    order.splice(target, 0, taskID)
+    sdk.client.session.queueReorder({ sessionID: props.sessionID, order })
+  }
+
+  const title = createMemo(() => {
+    const completed = tasks().filter((task) => task.status === "completed").length
+    if (tasks().length === 0) return "Task queue — empty"
+    return `Task queue — ${completed} of ${tasks().length} completed`
+  })
+
+  return (
+    <DialogSelect
+      title={title()}
+      skipFilter
+      options={options()}
+      onSelect={(option) => {
+        const task = tasks().find((item) => item.id === option.value)
+        if (!task?.childID) return
+        route.navigate({ type: "session", sessionID: task.childID })
+        dialog.clear()
+      }}
+      keybind={[
+        {
+          keybind: Keybind.parse("ctrl+g")[0],
+          title: "run",
+          disabled: !tasks().some((task) => task.status === "pending"),
+          onTrigger: () => {
+            sdk.client.session.queueRun({ sessionID: props.sessionID })
+          },
+        },
+        {
+          keybind: Keybind.parse("ctrl+x")[0],
+          title: "cancel",
+          onTrigger: (option) => {
+            sdk.client.session.queueCancel({ sessionID: props.sessionID, taskID: option.value })
+          },
+        },
+        {
+          keybind: Keybind.parse("ctrl+r")[0],
+          title: "re-queue",
+          onTrigger: (option) => {
+            sdk.client.session.queueRequeue({ sessionID: props.sessionID, taskID: option.value })
+          },
+        },
+        {
+          keybind: Keybind.parse("shift+up")[0],
+          title: "move up",
+          onTrigger: (option) => move(option.value, -1),
+        },
+        {
+          keybind: Keybind.parse("shift+down")[0],
+          title: "move down",
+          onTrigger: (option) => move(option.value, 1),
+        },
+      ]}
+    />
+  )
+}
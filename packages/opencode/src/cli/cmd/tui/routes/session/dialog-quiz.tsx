@@ -0,0 +1,73 @@
+import { createMemo, createResource, createSignal, onMount } from "solid-js"
+import { useSDK } from "@tui/context/sdk"
+import { useTheme } from "@tui/context/theme"
+import { DialogSelect, type DialogSelectOption } from "@tui/ui/dialog-select"
+import { useDialog } from "../../ui/dialog"
+import type { QuizResult } from "@opencode-ai/sdk/v2"
+import { Keybind } from "@/util/keybind"
+
+export function DialogQuiz(props: { sessionID: string }) {
+  const sdk = useSDK()
+  const dialog = useDialog()
+  const { theme } = useTheme()
+  const [scope, setScope] = createSignal<"session" | "project">("session")
+
+  onMount(() => {
+    dialog.setSize("large")
+  })
+
+  const [summary] = createResource(scope, async (scope) => {
+    const result = await sdk.client.question.quiz({
+      sessionID: scope === "session" ? props.sessionID : undefined,
+    })
+    return result.data
+  })
+
+  const color = (verdict: QuizResult["verdict"]) =>
+    ({
+      correct: theme.success,
+      partial: theme.warning,
+      incorrect: theme.error,
+      skipped: theme.textMuted,
+    })[verdict]
+
+  const options = createMemo((): DialogSelectOption<string>[] => {
+    const data = summary()
+    if (!data) return []
+    // Weakest files first, so what needs another look is at the top
+    const order = new Map(data.files.map((file, index) => [file.file, index]))
+    return data.results
+      .toSorted((a, b) => (order.get(a.file ?? "") ?? Infinity) - (order.get(b.file ?? "") ?? Infinity))
+      .map((result) => ({
+        value: result.id,
+        title: result.question,
+        description: `${result.answer ?? "(no answer)"} — expected: ${result.expected}`,
+        category: result.file
+          ? `${result.file} (${Math.round((data.files[order.get(result.file)!]?.score ?? 0) * 100)}%)`
+          : "Other",
+        gutter: <text fg={color(result.verdict)}>●</text>,
+        footer: result.line ? `${result.verdict} · line ${result.line}` : result.verdict,
+      }))
+  })
+
+  const title = createMemo(() => {
+    const data = summary()
+    const label = scope() === "session" ? "Comprehension quiz" : "Comprehension quiz (project)"
+    if (!data || data.total === 0) return `${label} — no answers yet`
+    return `${label} — ${data.correct}/${data.total} correct, ${data.partial} partial, score ${Math.round(data.score * 100)}%`
+  })
+
+  return (
+    <DialogSelect
+      title={title()}
+      options={options()}
+      keybind={[
+        {
+          keybind: Keybind.parse("tab")[0],
+          title: scope() === "session" ? "project" : "session",
+          onTrigger: () => setScope((value) => (value === "session" ? "project" : "session")),
+        },
+      ]}
+    />
+  )
+}
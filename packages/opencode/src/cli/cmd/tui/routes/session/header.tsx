@@ -30,12 +30,17 @@ const ContextInfo = (props: { context: Accessor<string | undefined>; cost: Acces
   )
 }
 
-const ModeBadge = () => {
+const ModeBadge = (props: { session: Accessor<Session> }) => {
   const local = useLocal()
   const color = createMemo(() => local.agent.color(local.agent.current().name))
+  const label = createMemo(() => {
+    const name = local.agent.current().name.toUpperCase()
+    const mode = props.session().mode
+    return mode ? `${name}: ${mode.toUpperCase()}` : name
+  })
   return (
     <text fg={color()}>
-      <b>[{local.agent.current().name.toUpperCase()}]</b>
+      <b>[{label()}]</b>
     </text>
   )
 }
@@ -136,7 +141,7 @@ export function Header() {
           <Match when={true}>
             <box flexDirection={narrow() ? "column" : "row"} justifyContent="space-between" gap={1}>
               <box flexDirection="row" gap={1}>
-                <ModeBadge />
+                <ModeBadge session={session} />
                 <Title session={session} />
               </box>
               <ContextInfo context={context} cost={cost} />
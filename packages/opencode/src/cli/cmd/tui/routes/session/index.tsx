@@ -13,6 +13,7 @@ import {
 } from "solid-js"
 import { Dynamic } from "solid-js/web"
 import path from "path"
+import { pathToFileURL } from "url"
 import { useRoute, useRouteData } from "@tui/context/route"
 import { useSync } from "@tui/context/sync"
 import { SplitBorder } from "@tui/component/border"
@@ -28,7 +29,15 @@ import {
   RGBA,
 } from "@opentui/core"
 import { Prompt, type PromptRef } from "@tui/component/prompt"
-import type { AssistantMessage, Part, ToolPart, UserMessage, TextPart, ReasoningPart } from "@opencode-ai/sdk/v2"
+import type {
+  AssistantMessage,
+  Part,
+  ToolPart,
+  UserMessage,
+  TextPart,
+  ReasoningPart,
+  ReviewPart,
+} from "@opencode-ai/sdk/v2"
 import { useLocal } from "@tui/context/local"
 import { Locale } from "@/util/locale"
 import type { Tool } from "@/tool/tool"
@@ -56,7 +65,11 @@ import { TodoItem } from "../../component/todo-item"
 import { DialogMessage } from "./dialog-message"
 import type { PromptInfo } from "../../component/prompt/history"
 import { DialogConfirm } from "@tui/ui/dialog-confirm"
+import { Link } from "@tui/ui/link"
 import { DialogTimeline } from "./dialog-timeline"
+import { DialogQuiz } from "./dialog-quiz"
+import { DialogQueue } from "./dialog-queue"
+import { QueueDock } from "./queue"
 import { DialogForkFromTimeline } from "./dialog-fork-from-timeline"
 import { DialogSessionRename } from "../../component/dialog-session-rename"
 import { Sidebar } from "./sidebar"
@@ -387,6 +400,28 @@ export function Session() {
         ))
       },
     },
+    {
+      title: "Comprehension quiz",
+      value: "session.quiz",
+      category: "Session",
+      slash: {
+        name: "quiz",
+      },
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogQuiz sessionID={route.sessionID} />)
+      },
+    },
+    {
+      title: "Task queue",
+      value: "session.queue",
+      category: "Session",
+      slash: {
+        name: "queue",
+      },
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogQueue sessionID={route.sessionID} />)
+      },
+    },
     {
       title: "Fork from message",
       value: "session.fork",
@@ -1099,6 +1134,7 @@ export function Session() {
               </For>
             </scrollbox>
             <box flexShrink={0}>
+              <QueueDock sessionID={route.sessionID} />
               <Show when={permissions().length > 0}>
                 <PermissionPrompt request={permissions()[0]} />
               </Show>
@@ -1206,6 +1242,14 @@ function UserMessage(props: {
             flexShrink={0}
           >
             <text fg={theme.text}>{text()?.text}</text>
+            <Show when={props.message.assessment}>
+              {(assessment) => (
+                <text fg={theme.textMuted}>
+                  <span style={{ fg: color() }}>{Locale.titlecase(assessment().mode)}</span>
+                  {` · ${assessment().confidence}% · ${assessment().reason}`}
+                </text>
+              )}
+            </Show>
             <Show when={files().length}>
               <box flexDirection="row" paddingBottom={metadataVisible() ? 1 : 0} paddingTop={1} gap={1} flexWrap="wrap">
                 <For each={files()}>
@@ -1340,6 +1384,7 @@ const PART_MAPPING = {
   text: TextPart,
   tool: ToolPart,
   reasoning: ReasoningPart,
+  review: ReviewPart,
 }
 
 function ReasoningPart(props: { last: boolean; part: ReasoningPart; message: AssistantMessage }) {
@@ -1407,6 +1452,48 @@ function TextPart(props: { last: boolean; part: TextPart; message: AssistantMess
   )
 }
 
+function ReviewPart(props: { last: boolean; part: ReviewPart; message: AssistantMessage }) {
+  const { theme } = useTheme()
+  const sync = useSync()
+  const color = createMemo(() => (props.part.verdict === "pass" ? theme.success : theme.error))
+  return (
+    <box
+      id={"review-" + props.part.id}
+      paddingLeft={2}
+      marginTop={1}
+      flexDirection="column"
+      border={["left"]}
+      customBorderChars={SplitBorder.customBorderChars}
+      borderColor={color()}
+    >
+      <text fg={color()}>
+        <b>{props.part.verdict === "pass" ? "✓ Standards review passed" : "✗ Standards review failed"}</b>
+        <Show when={props.part.violations.length > 0}>
+          <span style={{ fg: theme.textMuted }}> · {props.part.violations.length} violations</span>
+        </Show>
+      </text>
+      <For each={props.part.violations}>
+        {(violation) => (
+          <box flexDirection="column" paddingTop={1}>
+            <box flexDirection="row" gap={1}>
+              <Link
+                href={pathToFileURL(path.resolve(sync.data.path.directory, violation.file)).href}
+                fg={theme.primary}
+              >
+                {violation.line ? `${violation.file}:${violation.line}` : violation.file}
+              </Link>
+              <text fg={theme.textMuted}>
+                [{violation.standard}/{violation.rule}]
+              </text>
+            </box>
+            <text fg={theme.textMuted}>{violation.explanation}</text>
+          </box>
+        )}
+      </For>
+    </box>
+  )
+}
+
 // Pending messages moved to individual tool pending functions
 
 function ToolPart(props: { last: boolean; part: ToolPart; message: AssistantMessage }) {
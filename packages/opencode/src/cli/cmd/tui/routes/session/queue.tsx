@@ -0,0 +1,93 @@
+import { createMemo, For, Show } from "solid-js"
+import type { QueueTask } from "@opencode-ai/sdk/v2"
+import { useSync } from "@tui/context/sync"
+import { useTheme } from "@tui/context/theme"
+import { SplitBorder } from "@tui/component/border"
+
+const VISIBLE = 5
+
+export function useQueueStatus() {
+  const { theme } = useTheme()
+  return {
+    icon: (status: QueueTask["status"]) =>
+      ({ pending: "○", running: "•", completed: "✓", failed: "✗", cancelled: "–" })[status],
+    color: (status: QueueTask["status"]) =>
+      ({
+        pending: theme.textMuted,
+        running: theme.warning,
+        completed: theme.success,
+        failed: theme.error,
+        cancelled: theme.textMuted,
+      })[status],
+  }
+}
+
+export function describeTask(task: QueueTask) {
+  const notes: string[] = [task.status]
+  if (task.files.length) notes.push(`${task.files.length} file${task.files.length === 1 ? "" : "s"}`)
+  if (task.review) {
+    notes.push(task.review.verdict === "pass" ? "review passed" : `${task.review.violations.length} violation(s)`)
+  }
+  if (task.error) notes.push(task.error)
+  return notes.join(" · ")
+}
+
+export function QueueDock(props: { sessionID: string }) {
+  const sync = useSync()
+  const { theme } = useTheme()
+  const status = useQueueStatus()
+  const tasks = createMemo(() => sync.data.queue[props.sessionID] ?? [])
+  const active = createMemo(() =>
+    tasks().some((task) => task.status === "pending" || task.status === "running" || task.status === "failed"),
+  )
+  const completed = createMemo(() => tasks().filter((task) => task.status === "completed").length)
+  // Keep the running task in view once earlier ones scroll off
+  const visible = createMemo(() => {
+    const running = tasks().findIndex((task) => task.status === "running")
+    const start = Math.max(0, Math.min(running - 1, tasks().length - VISIBLE))
+    return tasks().slice(start, start + VISIBLE)
+  })
+
+  return (
+    <Show when={active()}>
+      <box
+        backgroundColor={theme.backgroundPanel}
+        border={["left"]}
+        borderColor={theme.border}
+        customBorderChars={SplitBorder.customBorderChars}
+        paddingLeft={2}
+        paddingRight={2}
+        paddingTop={1}
+        paddingBottom={1}
+        marginBottom={1}
+      >
+        <box flexDirection="row" gap={1}>
+          <text fg={theme.text}>
+            <b>Task queue</b>
+          </text>
+          <text fg={theme.textMuted}>
+            {completed()} of {tasks().length} completed · /queue to manage
+          </text>
+        </box>
+        <For each={visible()}>
+          {(task) => (
+            <box flexDirection="row" gap={1}>
+              <text flexShrink={0} fg={status.color(task.status)}>
+                {status.icon(task.status)}
+              </text>
+              <text flexGrow={1} wrapMode="none" fg={task.status === "running" ? theme.text : theme.textMuted}>
+                {task.title}
+              </text>
+              <text flexShrink={0} wrapMode="none" fg={theme.textMuted}>
+                {describeTask(task)}
+              </text>
+            </box>
+          )}
+        </For>
+        <Show when={tasks().length > VISIBLE}>
+          <text fg={theme.textMuted}>+{tasks().length - VISIBLE} more</text>
+        </Show>
+      </box>
+    </Show>
+  )
+}
@@ -671,6 +671,57 @@ export namespace Config {
   })
   export type Skills = z.infer<typeof Skills>
 
+  export const DebugWorkflowPhase = z.object({
+    description: z.string().optional().describe("What the agent should accomplish in this phase"),
+    tools: z.array(z.string()).describe("Tool IDs available to the agent while in this phase"),
+    next: z.array(z.string()).describe("Phases the agent may transition to from this phase"),
+  })
+  export type DebugWorkflowPhase = z.infer<typeof DebugWorkflowPhase>
+
+  export const DebugWorkflow = z
+    .object({
+      initial: z
+        .string()
+        .optional()
+        .describe("Phase a session starts in. Returning to it starts the next step (default: first phase listed)"),
+      phases: z.record(z.string(), DebugWorkflowPhase).describe("Phase graph keyed by phase name"),
+    })
+    .superRefine((workflow, ctx) => {
+      const names = Object.keys(workflow.phases)
+      if (names.length === 0) {
+        ctx.addIssue({ code: "custom", message: "Workflow must define at least one phase", path: ["phases"] })
+        return
+      }
+      if (workflow.initial !== undefined && !(workflow.initial in workflow.phases)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Initial phase "${workflow.initial}" is not defined in phases`,
+          path: ["initial"],
+        })
+      }
+      for (const [name, phase] of Object.entries(workflow.phases)) {
+        for (const target of phase.next) {
+          if (target in workflow.phases) continue
+          ctx.addIssue({
+            code: "custom",
+            message: `Phase "${name}" transitions to undefined phase "${target}"`,
+            path: ["phases", name, "next"],
+          })
+        }
+        if (phase.next.length > 0 && !phase.tools.includes("transitionPhase")) {
+          ctx.addIssue({
+            code: "custom",
+            message: `Phase "${name}" has transitions but does not allow the transitionPhase tool`,
+            path: ["phases", name, "tools"],
+          })
+        }
+      }
+    })
+    .meta({
+      ref: "DebugWorkflowConfig",
+    })
+  export type DebugWorkflow = z.infer<typeof DebugWorkflow>
+
   export const Agent = z
     .object({
       model: ModelId.optional(),
@@ -705,6 +756,21 @@ export namespace Config {
         .describe("Maximum number of agentic iterations before forcing text-only response"),
       maxSteps: z.number().int().positive().optional().describe("@deprecated Use 'steps' field instead."),
       permission: Permission.optional(),
+      workflow: DebugWorkflow.optional().describe(
+        "Phase graph and per-phase tool allowlists for the debug agent (default: the built-in debug workflow)",
+      ),
+      no_code: z
+        .union([
+          z.boolean(),
+          z.object({
+            action: z.enum(["redact", "reprompt"]).optional(),
+            lines: z.number().int().positive().optional(),
+          }),
+        ])
+        .optional()
+        .describe(
+          "Keep the agent from printing code meant to be pasted: code blocks longer than `lines` are redacted into a hint, or the model is re-prompted to answer without them (pair default: redact, 5 lines)",
+        ),
     })
     .catchall(z.any())
     .transform((agent, ctx) => {
@@ -725,6 +791,8 @@ export namespace Config {
         "permission",
         "disable",
         "tools",
+        "workflow",
+        "no_code",
       ])
 
       // Extract unknown properties into options
@@ -1171,6 +1239,27 @@ export namespace Config {
             .describe("Token buffer for compaction. Leaves enough window to avoid overflow during compaction."),
         })
         .optional(),
+      assessor: z
+        .object({
+          llm: z
+            .boolean()
+            .optional()
+            .describe(
+              "Ask a small model to classify prompts when auto-selecting a mode. The keyword heuristic is used when disabled or when the model fails (default: false)",
+            ),
+          model: ModelId.describe(
+            "Model to classify prompts with, in the format of provider/model. Defaults to the small model",
+          ).optional(),
+          timeout: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe(
+              "Milliseconds to wait for the model's classification before falling back to the heuristic (default: 3000)",
+            ),
+        })
+        .optional(),
       experimental: z
         .object({
           disable_paste_summary: z.boolean().optional(),
@@ -5,8 +5,11 @@ export namespace Identifier {
   const prefixes = {
     session: "ses",
     message: "msg",
+    override: "ovr",
     permission: "per",
     question: "que",
+    quiz: "quz",
+    task: "tsk",
     user: "usr",
     part: "prt",
     pty: "pty",
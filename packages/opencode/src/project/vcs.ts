@@ -73,4 +73,19 @@ export namespace Vcs {
   export async function branch() {
     return await state().then((s) => s.branch())
   }
+
+  /**
+   * Files git tracks or would track in the worktree, relative to it.
+   * Undefined outside a git repository.
+   */
+  export async function files() {
+    if (Instance.project.vcs !== "git") return
+    const output = await $`git ls-files --cached --others --exclude-standard`
+      .quiet()
+      .nothrow()
+      .cwd(Instance.worktree)
+      .text()
+      .catch(() => undefined)
+    return output?.split("\n").filter(Boolean)
+  }
 }
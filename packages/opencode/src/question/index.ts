@@ -98,11 +98,16 @@ export namespace Question {
     sessionID: string
     questions: Info[]
     tool?: { messageID: string; callID: string }
+    // Withdraws the question, rejecting it as if the user dismissed it
+    abort?: AbortSignal
   }): Promise<Answer[]> {
     const s = await state()
     const id = Identifier.ascending("question")
+    if (input.abort?.aborted) throw new RejectedError()
 
     log.info("asking", { id, questions: input.questions.length })
+    const withdraw = () => reject(id)
+    input.abort?.addEventListener("abort", withdraw, { once: true })
 
     return new Promise<Answer[]>((resolve, reject) => {
       const info: Request = {
@@ -117,7 +122,7 @@ export namespace Question {
         reject,
       }
       Bus.publish(Event.Asked, info)
-    })
+    }).finally(() => input.abort?.removeEventListener("abort", withdraw))
   }
 
   export async function reply(input: { requestID: string; answers: Answer[] }): Promise<void> {
@@ -0,0 +1,28 @@
+import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core"
+import { ProjectTable } from "../project/project.sql"
+import { SessionTable } from "../session/session.sql"
+import { Timestamps } from "@/storage/schema.sql"
+
+export const QuizTable = sqliteTable(
+  "quiz",
+  {
+    id: text().primaryKey(),
+    session_id: text()
+      .notNull()
+      .references(() => SessionTable.id, { onDelete: "cascade" }),
+    project_id: text()
+      .notNull()
+      .references(() => ProjectTable.id, { onDelete: "cascade" }),
+    step: integer().notNull(),
+    phase: text(),
+    question: text().notNull(),
+    expected: text().notNull(),
+    answer: text(),
+    verdict: text().notNull(),
+    score: real().notNull(),
+    file: text(),
+    line: integer(),
+    ...Timestamps,
+  },
+  (table) => [index("quiz_session_idx").on(table.session_id), index("quiz_project_idx").on(table.project_id)],
+)
@@ -0,0 +1,283 @@
+import { Bus } from "@/bus"
+import { BusEvent } from "@/bus/bus-event"
+import { Identifier } from "@/id/id"
+import { Instance } from "@/project/instance"
+import { Database, eq, asc } from "@/storage/db"
+import { Log } from "@/util/log"
+import z from "zod"
+import { Question } from "@/question"
+import { QuizTable } from "./quiz.sql"
+
+export namespace Quiz {
+  const log = Log.create({ service: "quiz" })
+
+  export const Verdict = z.enum(["correct", "partial", "incorrect", "skipped"]).meta({
+    ref: "QuizVerdict",
+  })
+  export type Verdict = z.infer<typeof Verdict>
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("quiz"),
+      sessionID: z.string(),
+      projectID: z.string(),
+      step: z.number().describe("Debug workflow step the question was asked in"),
+      phase: z.string().optional(),
+      question: z.string(),
+      expected: z.string(),
+      answer: z.string().optional(),
+      verdict: Verdict,
+      score: z.number().describe("Fraction of the expected answer covered, from 0 to 1"),
+      file: z.string().optional(),
+      line: z.number().optional(),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "QuizResult",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const FileSummary = z
+    .object({
+      file: z.string(),
+      total: z.number(),
+      score: z.number(),
+    })
+    .meta({
+      ref: "QuizFileSummary",
+    })
+  export type FileSummary = z.infer<typeof FileSummary>
+
+  export const Summary = z
+    .object({
+      total: z.number(),
+      correct: z.number(),
+      partial: z.number(),
+      incorrect: z.number(),
+      skipped: z.number(),
+      score: z.number().describe("Average score over all questions, from 0 to 1"),
+      files: FileSummary.array().describe("Per-file scores, weakest first"),
+      results: Info.array(),
+    })
+    .meta({
+      ref: "QuizSummary",
+    })
+  export type Summary = z.infer<typeof Summary>
+
+  export const Event = {
+    Recorded: BusEvent.define("quiz.recorded", Info),
+  }
+
+  const STOPWORDS = new Set([
+    "a",
+    "an",
+    "and",
+    "are",
+    "be",
+    "because",
+    "by",
+    "for",
+    "from",
+    "in",
+    "is",
+    "it",
+    "of",
+    "on",
+    "or",
+    "so",
+    "that",
+    "the",
+    "then",
+    "this",
+    "to",
+    "was",
+    "will",
+    "with",
+  ])
+
+  function words(text: string) {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}_.$-]+/gu, " ")
+      .split(" ")
+      .map((word) => word.replace(/^[.-]+|[.-]+$/g, ""))
+      .filter(Boolean)
+  }
+
+  /**
+   * Grade an answer against the expected one. Multiple-choice answers must
+   * match exactly; free-text answers are scored by how many of the keywords
+   * (by default, the significant words of the expected answer) they mention.
+   */
+  export function grade(input: { expected: string; answer?: string; options?: string[]; keywords?: string[] }): {
+    verdict: Verdict
+    score: number
+  } {
+    const answer = words(input.answer ?? "")
+    if (answer.length === 0) return { verdict: "skipped", score: 0 }
+    const expected = words(input.expected)
+    if (answer.join(" ") === expected.join(" ")) return { verdict: "correct", score: 1 }
+    if (input.options?.some((option) => words(option).join(" ") === answer.join(" "))) {
+      return { verdict: "incorrect", score: 0 }
+    }
+
+    const keywords = [
+      ...new Set(
+        input.keywords?.length ? input.keywords.flatMap(words) : expected.filter((word) => !STOPWORDS.has(word)),
+      ),
+    ]
+    if (keywords.length === 0) return { verdict: "incorrect", score: 0 }
+    const mentioned = new Set(answer)
+    const score = Math.round((keywords.filter((word) => mentioned.has(word)).length / keywords.length) * 100) / 100
+    if (score >= 0.75) return { verdict: "correct", score }
+    if (score >= 0.4) return { verdict: "partial", score }
+    return { verdict: "incorrect", score }
+  }
+
+  /**
+   * Ask a comprehension question through the Question module, grade the
+   * answer and record the result. A dismissed question is recorded as
+   * skipped before the rejection is rethrown.
+   */
+  export async function ask(input: {
+    sessionID: string
+    step: number
+    phase?: string
+    question: string
+    expected: string
+    options?: string[]
+    keywords?: string[]
+    file?: string
+    line?: number
+    tool?: { messageID: string; callID: string }
+  }): Promise<Info> {
+    const answers = await Question.ask({
+      sessionID: input.sessionID,
+      questions: [
+        {
+          question: input.question,
+          header: "Comprehension check",
+          options: (input.options ?? []).map((label) => ({ label, description: "" })),
+          custom: true,
+        },
+      ],
+      tool: input.tool,
+    }).catch((e) => {
+      if (!(e instanceof Question.RejectedError)) throw e
+      record({ ...input, verdict: "skipped", score: 0 })
+      throw e
+    })
+
+    const answer = answers[0]?.join(", ")
+    return record({ ...input, answer, ...grade({ ...input, answer }) })
+  }
+
+  export function record(input: {
+    sessionID: string
+    step: number
+    phase?: string
+    question: string
+    expected: string
+    answer?: string
+    verdict: Verdict
+    score: number
+    file?: string
+    line?: number
+  }): Info {
+    const info: Info = {
+      id: Identifier.ascending("quiz"),
+      sessionID: input.sessionID,
+      projectID: Instance.project.id,
+      step: input.step,
+      phase: input.phase,
+      question: input.question,
+      expected: input.expected,
+      answer: input.answer || undefined,
+      verdict: input.verdict,
+      score: input.score,
+      file: input.file,
+      line: input.line,
+      time: { created: Date.now() },
+    }
+    log.info("recorded", { id: info.id, verdict: info.verdict })
+    Database.use((db) => {
+      db.insert(QuizTable)
+        .values({
+          id: info.id,
+          session_id: info.sessionID,
+          project_id: info.projectID,
+          step: info.step,
+          phase: info.phase,
+          question: info.question,
+          expected: info.expected,
+          answer: info.answer,
+          verdict: info.verdict,
+          score: info.score,
+          file: info.file,
+          line: info.line,
+          time_created: info.time.created,
+        })
+        .run()
+      Database.effect(() => Bus.publish(Event.Recorded, info))
+    })
+    return info
+  }
+
+  type QuizRow = typeof QuizTable.$inferSelect
+
+  function fromRow(row: QuizRow): Info {
+    return {
+      id: row.id,
+      sessionID: row.session_id,
+      projectID: row.project_id,
+      step: row.step,
+      phase: row.phase ?? undefined,
+      question: row.question,
+      expected: row.expected,
+      answer: row.answer ?? undefined,
+      verdict: row.verdict as Verdict,
+      score: row.score,
+      file: row.file ?? undefined,
+      line: row.line ?? undefined,
+      time: { created: row.time_created },
+    }
+  }
+
+  export function list(input: { sessionID?: string; projectID?: string }): Info[] {
+    const filter = input.sessionID
+      ? eq(QuizTable.session_id, input.sessionID)
+      : eq(QuizTable.project_id, input.projectID ?? Instance.project.id)
+    const rows = Database.use((db) =>
+      db.select().from(QuizTable).where(filter).orderBy(asc(QuizTable.time_created)).all(),
+    )
+    return rows.map(fromRow)
+  }
+
+  export function summarize(results: Info[]): Summary {
+    const count = (verdict: Verdict) => results.filter((r) => r.verdict === verdict).length
+    const average = (items: Info[]) =>
+      items.length === 0 ? 0 : Math.round((items.reduce((sum, r) => sum + r.score, 0) / items.length) * 100) / 100
+
+    const byFile = new Map<string, Info[]>()
+    for (const result of results) {
+      if (!result.file) continue
+      byFile.set(result.file, [...(byFile.get(result.file) ?? []), result])
+    }
+    const files = [...byFile.entries()]
+      .map(([file, items]) => ({ file, total: items.length, score: average(items) }))
+      .sort((a, b) => a.score - b.score || a.file.localeCompare(b.file))
+
+    return {
+      total: results.length,
+      correct: count("correct"),
+      partial: count("partial"),
+      incorrect: count("incorrect"),
+      skipped: count("skipped"),
+      score: average(results),
+      files,
+      results,
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Hono } from "hono"
 import { describeRoute, validator } from "hono-openapi"
 import { resolver } from "hono-openapi"
 import { Question } from "../../question"
+import { Quiz } from "../../question/quiz"
 import z from "zod"
 import { errors } from "../error"
 import { lazy } from "../../util/lazy"
@@ -94,5 +95,35 @@ export const QuestionRoutes = lazy(() =>
         await Question.reject(params.requestID)
         return c.json(true)
       },
+    )
+    .get(
+      "/quiz",
+      describeRoute({
+        summary: "Get comprehension quiz summary",
+        description:
+          "Summarize graded comprehension quiz answers for a session, or for the current project if no session is given.",
+        operationId: "question.quiz",
+        responses: {
+          200: {
+            description: "Quiz summary",
+            content: {
+              "application/json": {
+                schema: resolver(Quiz.Summary),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator(
+        "query",
+        z.object({
+          sessionID: z.string().optional().meta({ description: "Limit the summary to a single session" }),
+        }),
+      ),
+      async (c) => {
+        const query = c.req.valid("query")
+        return c.json(Quiz.summarize(Quiz.list({ sessionID: query.sessionID })))
+      },
     ),
 )
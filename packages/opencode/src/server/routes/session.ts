@@ -10,7 +10,10 @@ import { SessionRevert } from "../../session/revert"
 import { SessionStatus } from "@/session/status"
 import { SessionSummary } from "@/session/summary"
 import { Todo } from "../../session/todo"
+import { DebugPhase } from "../../session/debug-phase"
+import { SessionQueue } from "../../session/queue"
 import { Agent } from "../../agent/agent"
+import { Assessor } from "../../agent/assessor"
 import { Snapshot } from "@/snapshot"
 import { Log } from "../../util/log"
 import { PermissionNext } from "@/permission/next"
@@ -182,6 +185,266 @@ export const SessionRoutes = lazy(() =>
         return c.json(todos)
       },
     )
+    .get(
+      "/:sessionID/debug-phase",
+      describeRoute({
+        summary: "Get session debug phase",
+        description:
+          "Retrieve the debug agent's workflow state for a session: the current phase, step and auto-confirm setting. Returns null if the session has not used the debug agent.",
+        operationId: "session.debugPhase",
+        responses: {
+          200: {
+            description: "Debug phase state",
+            content: {
+              "application/json": {
+                schema: resolver(DebugPhase.Info.nullable()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        return c.json(DebugPhase.get(sessionID) ?? null)
+      },
+    )
+    .get(
+      "/:sessionID/queue",
+      describeRoute({
+        summary: "Get session task queue",
+        description:
+          "Retrieve the tasks queued in a session, in run order, with each task's status, child session, changed files and review verdict.",
+        operationId: "session.queue",
+        responses: {
+          200: {
+            description: "Task queue",
+            content: {
+              "application/json": {
+                schema: resolver(SessionQueue.Info.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        return c.json(SessionQueue.list(sessionID))
+      },
+    )
+    .post(
+      "/:sessionID/queue",
+      describeRoute({
+        summary: "Add queue tasks",
+        description: "Add tasks to the end of a session's task queue. Tasks stay pending until the queue runs.",
+        operationId: "session.queueAdd",
+        responses: {
+          200: {
+            description: "Added tasks",
+            content: {
+              "application/json": {
+                schema: resolver(SessionQueue.Info.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator("json", SessionQueue.add.schema.pick({ tasks: true })),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const body = c.req.valid("json")
+        return c.json(await SessionQueue.add({ sessionID, tasks: body.tasks }))
+      },
+    )
+    .post(
+      "/:sessionID/queue/reorder",
+      describeRoute({
+        summary: "Reorder queue tasks",
+        description:
+          "Move the given tasks to the front of a session's task queue in the given order. Other tasks keep their relative order after them.",
+        operationId: "session.queueReorder",
+        responses: {
+          200: {
+            description: "Task queue",
+            content: {
+              "application/json": {
+                schema: resolver(SessionQueue.Info.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator("json", SessionQueue.reorder.schema.pick({ order: true })),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const body = c.req.valid("json")
+        return c.json(await SessionQueue.reorder({ sessionID, order: body.order }))
+      },
+    )
+    .post(
+      "/:sessionID/queue/run",
+      describeRoute({
+        summary: "Run session task queue",
+        description:
+          "Start running a session's pending tasks in order, each in its own child session, and return immediately. Progress is published as session.queue.updated events.",
+        operationId: "session.queueRun",
+        responses: {
+          200: {
+            description: "Task queue",
+            content: {
+              "application/json": {
+                schema: resolver(SessionQueue.Info.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator(
+        "json",
+        z
+          .object({
+            model: z
+              .object({
+                providerID: z.string(),
+                modelID: z.string(),
+              })
+              .optional(),
+          })
+          .optional(),
+      ),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const body = c.req.valid("json") ?? {}
+        await Session.get(sessionID)
+        SessionQueue.run({ sessionID, model: body.model }).catch((error) => log.error("queue run failed", { error }))
+        return c.json(SessionQueue.list(sessionID))
+      },
+    )
+    .post(
+      "/:sessionID/queue/:taskID/cancel",
+      describeRoute({
+        summary: "Cancel queue task",
+        description: "Cancel a pending or running task. A running task's child session is aborted.",
+        operationId: "session.queueCancel",
+        responses: {
+          200: {
+            description: "Cancelled task",
+            content: {
+              "application/json": {
+                schema: resolver(SessionQueue.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          taskID: z.string().meta({ description: "Task ID" }),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        return c.json(await SessionQueue.cancel({ sessionID: params.sessionID, taskID: params.taskID }))
+      },
+    )
+    .post(
+      "/:sessionID/queue/:taskID/requeue",
+      describeRoute({
+        summary: "Re-queue task",
+        description:
+          "Put a completed, failed or cancelled task back at the end of the queue so it runs again in a new child session.",
+        operationId: "session.queueRequeue",
+        responses: {
+          200: {
+            description: "Re-queued task",
+            content: {
+              "application/json": {
+                schema: resolver(SessionQueue.Info),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          taskID: z.string().meta({ description: "Task ID" }),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        return c.json(await SessionQueue.requeue({ sessionID: params.sessionID, taskID: params.taskID }))
+      },
+    )
+    .get(
+      "/:sessionID/queue/:taskID/diff",
+      describeRoute({
+        summary: "Get queue task diff",
+        description: "Get the file changes a queued task made, between the snapshots taken before and after it ran.",
+        operationId: "session.queueDiff",
+        responses: {
+          200: {
+            description: "Task diff",
+            content: {
+              "application/json": {
+                schema: resolver(Snapshot.FileDiff.array()),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+          taskID: z.string().meta({ description: "Task ID" }),
+        }),
+      ),
+      async (c) => {
+        const params = c.req.valid("param")
+        return c.json(await SessionQueue.diff({ sessionID: params.sessionID, taskID: params.taskID }))
+      },
+    )
     .post(
       "/",
       describeRoute({
@@ -540,6 +803,38 @@ export const SessionRoutes = lazy(() =>
         return c.json(true)
       },
     )
+    .post(
+      "/:sessionID/assess",
+      describeRoute({
+        summary: "Assess prompt",
+        description:
+          "Assess which mode a prompt calls for, with the confidence and reason. This is the same assessment the session applies when a prompt is sent without an agent.",
+        operationId: "session.assess",
+        responses: {
+          200: {
+            description: "Assessment",
+            content: {
+              "application/json": {
+                schema: resolver(Assessor.Result),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator(
+        "param",
+        z.object({
+          sessionID: z.string().meta({ description: "Session ID" }),
+        }),
+      ),
+      validator("json", SessionPrompt.AssessInput.omit({ sessionID: true })),
+      async (c) => {
+        const sessionID = c.req.valid("param").sessionID
+        const body = c.req.valid("json")
+        return c.json(await SessionPrompt.assess({ ...body, sessionID }))
+      },
+    )
     .get(
       "/:sessionID/message",
       describeRoute({
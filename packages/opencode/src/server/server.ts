@@ -17,6 +17,7 @@ import { Instance } from "../project/instance"
 import { Vcs } from "../project/vcs"
 import { Agent } from "../agent/agent"
 import { Skill } from "../skill/skill"
+import { Standards } from "../agent/standards"
 import { Auth } from "../auth"
 import { Flag } from "../flag/flag"
 import { Command } from "../command"
@@ -440,6 +441,30 @@ export namespace Server {
             return c.json(skills)
           },
         )
+        .get(
+          "/standards",
+          describeRoute({
+            summary: "List standards packs",
+            description:
+              "Get the quality standards packs available to the project, whether each is enabled, and the rule ids review verdicts refer to.",
+            operationId: "app.standards",
+            responses: {
+              200: {
+                description: "List of standards packs",
+                content: {
+                  "application/json": {
+                    schema: resolver(Standards.Pack.array()),
+                  },
+                },
+              },
+            },
+          }),
+          async (c) => {
+            const config = await Standards.load(Instance.directory)
+            const packs = await Standards.packs()
+            return c.json(packs.map((item) => ({ ...item, enabled: Standards.enabled(config, item) })))
+          },
+        )
         .get(
           "/lsp",
           describeRoute({
@@ -0,0 +1,190 @@
+import z from "zod"
+import { Instance } from "@/project/instance"
+import { Question } from "@/question"
+import { Log } from "@/util/log"
+import { Session } from "."
+import { SessionAssess } from "./assess"
+
+/**
+ * Tracks the escalation and de-escalation triggers described in the adaptive
+ * agent's prompt, and asks the user before switching its sub-mode.
+ */
+export namespace SessionAdaptive {
+  const log = Log.create({ service: "session.adaptive" })
+
+  export const AGENT = "adaptive"
+
+  export const SubMode = z.enum(["claw", "vibe", "debug", "pair"])
+  export type SubMode = z.infer<typeof SubMode>
+
+  export type Trigger = "test-failures" | "cross-package" | "steady"
+
+  const FAILURE_THRESHOLD = 2
+  const SUCCESS_THRESHOLD = 3
+
+  const TEST_COMMAND =
+    /\b(bun test|(npm|pnpm|yarn)( run)? test|npx (jest|vitest|mocha)|jest|vitest|mocha|pytest|go test|cargo test|dotnet test|rspec|phpunit|mvn test|gradle test|make test)\b/
+
+  const DESCRIPTIONS: Record<SubMode, string> = {
+    claw: "Work autonomously, without pausing for review",
+    vibe: "Work through the steps with self-review",
+    debug: "Go step by step and investigate with the debugger",
+    pair: "Explain and guide while you write the code",
+  }
+
+  type Tracker = {
+    // Consecutive failed test runs
+    failures: number
+    // Consecutive steps without a tool error or failed test run
+    successes: number
+    // Whether the current step has failed so far
+    failed: boolean
+    // Workspace packages edited in this session
+    packages: Set<string>
+    // Triggers the user turned down for the current sub-mode
+    declined: Set<Trigger>
+  }
+
+  const state = Instance.state(() => {
+    const data: Record<string, Tracker> = {}
+    return data
+  })
+
+  function tracker(sessionID: string) {
+    const s = state()
+    s[sessionID] ??= {
+      failures: 0,
+      successes: 0,
+      failed: false,
+      packages: new Set(),
+      declined: new Set(),
+    }
+    return s[sessionID]
+  }
+
+  export function isTestCommand(command: string) {
+    return TEST_COMMAND.test(command)
+  }
+
+  /**
+   * Record a finished tool call. Failed `bash` test runs count towards the
+   * test-failure trigger and any failure resets the run of successful steps.
+   */
+  export function tool(input: {
+    sessionID: string
+    agent: string
+    tool: string
+    input?: Record<string, any>
+    metadata?: Record<string, any>
+    error?: boolean
+  }) {
+    if (input.agent !== AGENT) return
+    const t = tracker(input.sessionID)
+    if (input.error) t.failed = true
+    if (input.tool !== "bash" || typeof input.input?.command !== "string") return
+    if (!isTestCommand(input.input.command)) return
+    if (!input.error && input.metadata?.exit === 0) {
+      t.failures = 0
+      return
+    }
+    t.failures++
+    t.failed = true
+  }
+
+  /**
+   * Record a finished step with the files it changed, then propose a sub-mode
+   * switch if a trigger fired. Resolves once the user has answered, or once
+   * `abort` fires and the proposal is withdrawn.
+   */
+  export async function step(input: { sessionID: string; agent: string; files: string[]; abort?: AbortSignal }) {
+    if (input.agent !== AGENT) return
+    const t = tracker(input.sessionID)
+    t.successes = t.failed ? 0 : t.successes + 1
+    t.failed = false
+
+    const before = t.packages.size
+    for (const pkg of await SessionAssess.packages(input.files)) t.packages.add(pkg)
+
+    if (t.failures >= FAILURE_THRESHOLD) {
+      const failures = t.failures
+      t.failures = 0
+      return propose(input, "test-failures", "debug", `${failures} test failures in a row.`)
+    }
+    if (t.packages.size > 1 && t.packages.size > before) {
+      return propose(
+        input,
+        "cross-package",
+        "debug",
+        `Changes now span ${t.packages.size} packages (${[...t.packages].join(", ")}).`,
+      )
+    }
+    if (t.successes >= SUCCESS_THRESHOLD) {
+      const successes = t.successes
+      t.successes = 0
+      return propose(input, "steady", "claw", `${successes} steps completed successfully.`)
+    }
+  }
+
+  async function propose(
+    input: { sessionID: string; abort?: AbortSignal },
+    trigger: Trigger,
+    to: SubMode,
+    reason: string,
+  ) {
+    const sessionID = input.sessionID
+    const t = tracker(sessionID)
+    const session = await Session.get(sessionID)
+    if (session.mode === to || t.declined.has(trigger)) return
+    log.info("propose", { sessionID, trigger, from: session.mode, to })
+
+    const accept = `Switch to ${to}`
+    const answers = await Question.ask({
+      sessionID,
+      questions: [
+        {
+          header: "Adaptive mode",
+          question: `${reason} Switch to ${to} mode?`,
+          options: [
+            { label: accept, description: DESCRIPTIONS[to] },
+            { label: "Continue as-is", description: `Stay in ${session.mode ?? "the current"} mode` },
+          ],
+          custom: false,
+        },
+      ],
+      abort: input.abort,
+    }).catch((error) => {
+      if (error instanceof Question.RejectedError) return []
+      throw error
+    })
+
+    // A withdrawn proposal is not the user turning it down
+    if (input.abort?.aborted) return
+    if (answers[0]?.[0] !== accept) {
+      t.declined.add(trigger)
+      return
+    }
+    t.declined.clear()
+    return Session.setMode({ sessionID, mode: to })
+  }
+
+  /**
+   * System prompt section telling the adaptive agent which sub-mode it is in.
+   */
+  export async function system(sessionID: string, agent: string): Promise<string[]> {
+    if (agent !== AGENT) return []
+    const mode = SubMode.safeParse((await Session.get(sessionID)).mode)
+    if (!mode.success) return []
+    return [
+      [
+        "<adaptive-mode>",
+        `Current sub-mode: ${mode.data}. ${DESCRIPTIONS[mode.data]}.`,
+        "The user approved this switch. Keep working this way until another switch is approved.",
+        "</adaptive-mode>",
+      ].join("\n"),
+    ]
+  }
+
+  export function clear(sessionID: string) {
+    delete state()[sessionID]
+  }
+}
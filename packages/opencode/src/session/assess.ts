@@ -0,0 +1,232 @@
+import path from "path"
+import z from "zod"
+import { generateObject } from "ai"
+import { Assessor } from "@/agent/assessor"
+import { Config } from "@/config/config"
+import { Identifier } from "@/id/id"
+import { Instance } from "@/project/instance"
+import { Vcs } from "@/project/vcs"
+import { Provider } from "@/provider/provider"
+import { Database, asc, eq } from "@/storage/db"
+import { Filesystem } from "@/util/filesystem"
+import { Log } from "@/util/log"
+import { AssessorOverrideTable } from "./session.sql"
+import PROMPT_ASSESS from "./prompt/assess.txt"
+
+export namespace SessionAssess {
+  const log = Log.create({ service: "session.assess" })
+
+  const LLM_TIMEOUT = 3_000
+  const HISTORY_LIMIT = 200
+  const MANIFESTS = ["package.json", "go.mod", "Cargo.toml", "pyproject.toml"]
+
+  const strategies: Assessor.Strategy[] = []
+
+  /**
+   * Add a strategy that is tried before the built-in ones. A strategy that
+   * returns undefined or throws passes the prompt on to the next one.
+   */
+  export function register(strategy: Assessor.Strategy) {
+    strategies.unshift(strategy)
+    return () => {
+      const index = strategies.indexOf(strategy)
+      if (index !== -1) strategies.splice(index, 1)
+    }
+  }
+
+  const Classification = z.object({
+    mode: Assessor.Mode,
+    confidence: z.number().min(0).max(100),
+    reason: z.string(),
+  })
+
+  async function model() {
+    const cfg = await Config.get()
+    if (cfg.assessor?.model) {
+      const parsed = Provider.parseModel(cfg.assessor.model)
+      return Provider.getModel(parsed.providerID, parsed.modelID)
+    }
+    const fallback = await Provider.defaultModel()
+    return (
+      (await Provider.getSmallModel(fallback.providerID)) ??
+      (await Provider.getModel(fallback.providerID, fallback.modelID))
+    )
+  }
+
+  function describe(prompt: string, context: Assessor.Context) {
+    const list = (items: string[]) => (items.length ? items.join(", ") : "none")
+    const lines = ["Request:", prompt, ""]
+    if (context.signals) {
+      lines.push(
+        `Referenced files: ${list(context.signals.files)}`,
+        `Files without tests: ${list(context.signals.untested)}`,
+        `Packages touched: ${list(context.signals.packages)}`,
+      )
+    }
+    const preference = Assessor.preferred(prompt, Assessor.analyze(prompt).mode, context.history ?? [])
+    if (preference) {
+      lines.push(
+        `For similar requests the user switched to ${preference.mode} in ${preference.count} of ${preference.total} overrides.`,
+      )
+    }
+    return lines.join("\n")
+  }
+
+  const llm: Assessor.Strategy = {
+    name: "llm",
+    async assess(prompt, context) {
+      const cfg = await Config.get()
+      if (!cfg.assessor?.llm) return
+      const language = await Provider.getLanguage(await model())
+      const result = await generateObject({
+        model: language,
+        temperature: 0,
+        abortSignal: AbortSignal.timeout(cfg.assessor.timeout ?? LLM_TIMEOUT),
+        schema: Classification,
+        messages: [
+          { role: "system", content: PROMPT_ASSESS },
+          { role: "user", content: describe(prompt, context) },
+        ],
+      })
+      return {
+        ...result.object,
+        complexity: Assessor.analyze(prompt, { signals: context.signals }).complexity,
+      }
+    },
+  }
+
+  // Files git knows about, and the directories holding a package manifest,
+  // deepest first
+  async function repo() {
+    const files = await Vcs.files()
+    if (!files) return
+    const roots = files
+      .filter((file) => MANIFESTS.includes(path.basename(file)))
+      .map((file) => path.dirname(file))
+      .sort((a, b) => b.length - a.length)
+    return { files: new Set(files), roots }
+  }
+
+  function packageOf(file: string, roots: string[]) {
+    return roots.find((root) => root === "." || file.startsWith(root + "/")) ?? "."
+  }
+
+  /**
+   * Packages, relative to the worktree, that the given absolute paths fall in.
+   * Everything is one package outside a git repository.
+   */
+  export async function packages(files: string[]) {
+    const roots = (await repo())?.roots ?? []
+    return [...new Set(files.map((file) => packageOf(path.relative(Instance.worktree, file), roots)))]
+  }
+
+  function tested(file: string, root: string, files: Set<string>) {
+    const ext = path.extname(file)
+    const name = path.basename(file, ext)
+    const dir = path.dirname(file)
+    // Mirror src/ into test/ and tests/, e.g. src/agent/x.ts -> test/agent/x.test.ts
+    const nested = path.relative(root, dir).replace(/^src(\/|$)/, "")
+    const candidates = [
+      path.join(dir, `${name}.test${ext}`),
+      path.join(dir, `${name}.spec${ext}`),
+      path.join(dir, `${name}_test${ext}`),
+      path.join(dir, `test_${name}${ext}`),
+      path.join(dir, "__tests__", `${name}.test${ext}`),
+      path.join(dir, "__tests__", `${name}${ext}`),
+      ...["test", "tests"].flatMap((folder) => [
+        path.join(root, folder, nested, `${name}.test${ext}`),
+        path.join(root, folder, nested, `test_${name}${ext}`),
+      ]),
+    ]
+    return candidates.some((candidate) => files.has(candidate))
+  }
+
+  /**
+   * Repo facts for the paths a prompt references: which exist, which have
+   * no test file alongside them, and which packages they fall in. Test and
+   * package facts come from git and are left empty outside a repository.
+   */
+  export async function signals(prompt: string): Promise<Assessor.Signals> {
+    const known = await repo()
+    const files: string[] = []
+    const untested: string[] = []
+    const packages = new Set<string>()
+    for (const ref of Assessor.references(prompt)) {
+      const full = path.resolve(Instance.directory, ref)
+      if (!Filesystem.contains(Instance.worktree, full)) continue
+      const relative = path.relative(Instance.worktree, full)
+      if (!known) {
+        if (await Filesystem.exists(full)) files.push(relative)
+        continue
+      }
+      if (!known.files.has(relative)) continue
+      files.push(relative)
+      const root = packageOf(relative, known.roots)
+      packages.add(root)
+      if (/[._](test|spec)\.\w+$|(^|\/)test_[^/]+$/.test(relative)) continue
+      if (!tested(relative, root, known.files)) untested.push(relative)
+    }
+    return { files, untested, packages: [...packages] }
+  }
+
+  export function history(projectID = Instance.project.id): Assessor.Override[] {
+    const rows = Database.use((db) =>
+      db
+        .select()
+        .from(AssessorOverrideTable)
+        .where(eq(AssessorOverrideTable.project_id, projectID))
+        .orderBy(asc(AssessorOverrideTable.time_created))
+        .all(),
+    )
+    return rows.slice(-HISTORY_LIMIT).map((row) => ({
+      assessed: row.assessed as Assessor.Mode,
+      chosen: row.chosen,
+      terms: row.terms ?? [],
+      time: row.time_created,
+    }))
+  }
+
+  /**
+   * Remember that the user picked a mode over the assessed one, so prompts
+   * sharing most of their terms can follow suit. Without the assessment the
+   * client saw, the heuristic stands in for it.
+   */
+  export function learn(input: { sessionID: string; prompt: string; chosen: string; assessed?: Assessor.Mode }) {
+    if (!Assessor.Mode.safeParse(input.chosen).success) return
+    const assessed = input.assessed ?? Assessor.analyze(input.prompt).mode
+    if (assessed === input.chosen) return
+    log.info("override", { sessionID: input.sessionID, assessed, chosen: input.chosen })
+    Database.use((db) =>
+      db
+        .insert(AssessorOverrideTable)
+        .values({
+          id: Identifier.ascending("override"),
+          project_id: Instance.project.id,
+          session_id: input.sessionID,
+          assessed,
+          chosen: input.chosen,
+          terms: Assessor.terms(input.prompt),
+          time_created: Date.now(),
+        })
+        .run(),
+    )
+  }
+
+  export async function assess(prompt: string): Promise<Assessor.Result> {
+    const context: Assessor.Context = {
+      signals: await signals(prompt).catch((error) => {
+        log.warn("failed to collect signals", { error })
+        return undefined
+      }),
+      history: history(),
+    }
+    for (const strategy of [...strategies, llm]) {
+      const result = await strategy.assess(prompt, context).catch((error) => {
+        log.warn("strategy failed", { strategy: strategy.name, error })
+        return undefined
+      })
+      if (result) return result
+    }
+    return Assessor.analyze(prompt, context)
+  }
+}
@@ -1,45 +1,43 @@
-export namespace DebugPhase {
-  export const PHASES = [
-    "PLANNING",
-    "CODING",
-    "BREAKPOINTING",
-    "DEBUGGING",
-    "EXPLAINING",
-    "CONFIRMING",
-  ] as const
-
-  export type Phase = (typeof PHASES)[number]
-
-  export interface State {
-    sessionID: string
-    currentPhase: Phase
-    currentStep: number
-    totalSteps: number | null
-    stepDescriptions: string[]
-    autoConfirm: boolean
-  }
-
-  const VALID_TRANSITIONS: Readonly<Record<Phase, readonly Phase[]>> = {
-    PLANNING: ["CODING"],
-    CODING: ["BREAKPOINTING"],
-    BREAKPOINTING: ["DEBUGGING"],
-    DEBUGGING: ["EXPLAINING"],
-    EXPLAINING: ["CONFIRMING"],
-    CONFIRMING: ["PLANNING"],
-  }
+import z from "zod"
+import { Database, eq } from "../storage/db"
+import { DebugPhaseTable } from "./session.sql"
+import { Instance } from "../project/instance"
+import type { Config } from "../config/config"
 
-  const PHASE_TOOLS: Readonly<Record<Phase, readonly string[]>> = {
+export namespace DebugPhase {
+  export const PHASES = ["PLANNING", "CODING", "BREAKPOINTING", "DEBUGGING", "EXPLAINING", "CONFIRMING"] as const
+
+  // Phase names are defined by the workflow; PHASES are the built-in ones.
+  export type Phase = string
+
+  export const Info = z
+    .object({
+      sessionID: z.string(),
+      currentPhase: z.string(),
+      currentStep: z.number(),
+      totalSteps: z.number().nullable(),
+      stepDescriptions: z.array(z.string()),
+      autoConfirm: z.boolean(),
+    })
+    .meta({ ref: "DebugPhase" })
+  export type State = z.infer<typeof Info>
+
+  const DEFAULT_TOOLS: Record<(typeof PHASES)[number], string[]> = {
     PLANNING: ["read", "glob", "grep", "task", "transitionPhase"],
     CODING: ["read", "glob", "grep", "edit", "write", "bash", "apply_patch", "transitionPhase"],
     BREAKPOINTING: [
       "debugger_set_breakpoints",
       "debugger_remove_breakpoints",
+      "debugger_set_exception_breakpoints",
+      "debugger_set_function_breakpoints",
+      "debugger_remove_function_breakpoints",
       "debugger_list_breakpoints",
       "read",
       "transitionPhase",
     ],
     DEBUGGING: [
       "debugger_start_debug_session",
+      "debugger_attach_debug_session",
       "debugger_continue_execution",
       "debugger_step_over",
       "debugger_step_into",
@@ -47,80 +45,186 @@ export namespace DebugPhase {
       "debugger_get_variables",
       "debugger_get_call_stack",
       "debugger_evaluate_expression",
+      "debugger_get_program_output",
+      "debugger_set_data_breakpoints",
+      "debugger_remove_data_breakpoints",
       "debugger_list_breakpoints",
+      "debugger_list_debug_sessions",
+      "quiz",
       "transitionPhase",
     ],
-    EXPLAINING: ["transitionPhase"],
+    EXPLAINING: ["debugger_get_trace", "debugger_replay_stop", "transitionPhase"],
     CONFIRMING: ["debugger_stop_debug_session", "transitionPhase"],
   }
 
-  // In-memory store keyed by session ID. Callers should invoke clear(sessionID)
-  // when a session ends to prevent unbounded growth in long-running processes.
-  const store = new Map<string, State>()
+  const DEFAULT_NEXT: Record<(typeof PHASES)[number], string[]> = {
+    PLANNING: ["CODING"],
+    CODING: ["BREAKPOINTING"],
+    BREAKPOINTING: ["DEBUGGING"],
+    DEBUGGING: ["EXPLAINING"],
+    EXPLAINING: ["CONFIRMING"],
+    CONFIRMING: ["PLANNING"],
+  }
 
-  export function create(sessionID: string): State {
-    const state: State = {
+  export interface Workflow {
+    initial: Phase
+    phases: Record<Phase, Config.DebugWorkflowPhase>
+  }
+
+  // The built-in linear cycle, used when the debug agent has no `workflow` config.
+  export const DEFAULT_WORKFLOW: Workflow = {
+    initial: "PLANNING",
+    phases: Object.fromEntries(
+      PHASES.map((phase) => [phase, { tools: DEFAULT_TOOLS[phase], next: DEFAULT_NEXT[phase] }]),
+    ),
+  }
+
+  export function workflow(config?: Config.DebugWorkflow): Workflow {
+    if (!config) return DEFAULT_WORKFLOW
+    return {
+      initial: config.initial ?? Object.keys(config.phases)[0],
+      phases: config.phases,
+    }
+  }
+
+  // A persisted phase can disappear when the workflow config changes; such
+  // sessions can only move back to the initial phase.
+  function phaseOf(workflow: Workflow, phase: Phase): Config.DebugWorkflowPhase {
+    return workflow.phases[phase] ?? { tools: ["transitionPhase"], next: [workflow.initial] }
+  }
+
+  type DebugPhaseRow = typeof DebugPhaseTable.$inferSelect
+
+  function fromRow(row: DebugPhaseRow): State {
+    return {
+      sessionID: row.session_id,
+      currentPhase: row.phase,
+      currentStep: row.step,
+      totalSteps: row.total_steps,
+      stepDescriptions: row.step_descriptions,
+      autoConfirm: row.auto_confirm,
+    }
+  }
+
+  // Write-through cache over the debug_phase table, so the phase survives
+  // restarts and is restored when a session is resumed.
+  const cache = Instance.state(() => new Map<string, State>())
+
+  function save(state: State): State {
+    const values = {
+      phase: state.currentPhase,
+      step: state.currentStep,
+      total_steps: state.totalSteps,
+      step_descriptions: state.stepDescriptions,
+      auto_confirm: state.autoConfirm,
+    }
+    Database.use((db) =>
+      db
+        .insert(DebugPhaseTable)
+        .values({ session_id: state.sessionID, ...values })
+        .onConflictDoUpdate({ target: DebugPhaseTable.session_id, set: values })
+        .run(),
+    )
+    cache().set(state.sessionID, state)
+    return state
+  }
+
+  export function create(sessionID: string, workflow: Workflow = DEFAULT_WORKFLOW): State {
+    return save({
       sessionID,
-      currentPhase: "PLANNING",
+      currentPhase: workflow.initial,
       currentStep: 0,
       totalSteps: null,
       stepDescriptions: [],
       autoConfirm: false,
-    }
-    store.set(sessionID, state)
-    return state
+    })
   }
 
   export function get(sessionID: string): State | undefined {
-    return store.get(sessionID)
+    const cached = cache().get(sessionID)
+    if (cached) return cached
+    const row = Database.use((db) =>
+      db.select().from(DebugPhaseTable).where(eq(DebugPhaseTable.session_id, sessionID)).get(),
+    )
+    if (!row) return undefined
+    const state = fromRow(row)
+    cache().set(sessionID, state)
+    return state
   }
 
-  export function getOrCreate(sessionID: string): State {
-    return store.get(sessionID) ?? create(sessionID)
+  export function getOrCreate(sessionID: string, workflow: Workflow = DEFAULT_WORKFLOW): State {
+    return get(sessionID) ?? create(sessionID, workflow)
   }
 
-  export function transition(state: State, to: Phase): State {
-    const allowed = VALID_TRANSITIONS[state.currentPhase]
+  export function transition(state: State, to: Phase, workflow: Workflow = DEFAULT_WORKFLOW): State {
+    const allowed = phaseOf(workflow, state.currentPhase).next
     if (!allowed.includes(to)) {
-      throw new Error(
-        `Cannot transition from ${state.currentPhase} to ${to}. Valid transitions: ${allowed.join(", ")}`,
-      )
+      throw new Error(`Cannot transition from ${state.currentPhase} to ${to}. Valid transitions: ${allowed.join(", ")}`)
     }
 
     let nextStep = state.currentStep
-    if (state.currentPhase === "CONFIRMING" && to === "PLANNING") {
+    if (to === workflow.initial && state.currentPhase !== workflow.initial) {
       nextStep = state.currentStep + 1
     }
 
-    const next: State = {
+    return save({
       ...state,
       currentPhase: to,
       currentStep: nextStep,
-    }
-    store.set(state.sessionID, next)
-    return next
+    })
+  }
+
+  export function toolsForPhase(phase: Phase, workflow: Workflow = DEFAULT_WORKFLOW): string[] {
+    return [...phaseOf(workflow, phase).tools]
   }
 
-  export function toolsForPhase(phase: Phase): string[] {
-    return [...PHASE_TOOLS[phase]]
+  export function transitionsFrom(phase: Phase, workflow: Workflow = DEFAULT_WORKFLOW): string[] {
+    return [...phaseOf(workflow, phase).next]
   }
 
   export function isDebugAgent(agentName: string): boolean {
     return agentName === "debug"
   }
 
-  export function isToolAllowed(phase: Phase, toolID: string): boolean {
-    return PHASE_TOOLS[phase].includes(toolID)
+  export function isToolAllowed(phase: Phase, toolID: string, workflow: Workflow = DEFAULT_WORKFLOW): boolean {
+    return phaseOf(workflow, phase).tools.includes(toolID)
+  }
+
+  /**
+   * Describe a configured workflow for the debug agent's system prompt. The
+   * built-in workflow is already spelled out in the agent's prompt.
+   */
+  export function system(sessionID: string, agent: { name: string; workflow?: Config.DebugWorkflow }): string[] {
+    if (!isDebugAgent(agent.name) || !agent.workflow) return []
+    const flow = workflow(agent.workflow)
+    const state = getOrCreate(sessionID, flow)
+    return [
+      [
+        "<debug-workflow>",
+        "This project configures its own debug workflow. Follow these phases instead of the default ones.",
+        `Initial phase: ${flow.initial}. Returning to it starts the next step.`,
+        `Current phase: ${state.currentPhase} (step ${state.currentStep}).`,
+        ...Object.entries(flow.phases).flatMap(([name, phase]) => [
+          "",
+          `## ${name}`,
+          ...(phase.description ? [phase.description] : []),
+          `Tools: ${phase.tools.join(", ")}`,
+          `Next phases: ${phase.next.length > 0 ? phase.next.join(", ") : "none"}`,
+        ]),
+        "</debug-workflow>",
+      ].join("\n"),
+    ]
   }
 
   export function setAutoConfirm(sessionID: string, value: boolean): void {
-    const state = store.get(sessionID)
+    const state = get(sessionID)
     if (state) {
-      store.set(sessionID, { ...state, autoConfirm: value })
+      save({ ...state, autoConfirm: value })
     }
   }
 
   export function clear(sessionID: string): void {
-    store.delete(sessionID)
+    cache().delete(sessionID)
+    Database.use((db) => db.delete(DebugPhaseTable).where(eq(DebugPhaseTable.session_id, sessionID)).run())
   }
 }
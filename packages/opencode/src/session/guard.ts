@@ -0,0 +1,92 @@
+import type { Agent } from "@/agent/agent"
+
+/**
+ * Output guard for agents flagged no-code, like pair: finds code blocks long
+ * enough to be pasted as an implementation in a reply and redacts each into a
+ * hint, so the user still has to write the code themselves.
+ */
+export namespace SessionGuard {
+  // Fences that show output rather than code to copy
+  const EXEMPT = new Set(["text", "txt", "plaintext", "output", "console", "log"])
+
+  export interface Block {
+    start: number
+    end: number
+    language: string
+    lines: string[]
+  }
+
+  /**
+   * Fenced code blocks with more than `limit` non-blank lines. `start` and
+   * `end` are character offsets covering the fences; an unclosed fence runs
+   * to the end of the text, since it may still be streaming.
+   */
+  export function blocks(text: string, limit: number) {
+    const result: Block[] = []
+    const fence = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)[^\n]*$/gm
+    let open: RegExpExecArray | null
+    while ((open = fence.exec(text))) {
+      const marker = open[1]
+      const start = open.index
+      const body = start + open[0].length + 1
+      const closing = new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}[ \\t]*$`, "gm")
+      closing.lastIndex = body
+      const close = closing.exec(text)
+      const end = close ? close.index + close[0].length : text.length
+      fence.lastIndex = end
+      const lines = text.slice(body, close ? close.index : text.length).split("\n")
+      const language = open[2].toLowerCase()
+      if (EXEMPT.has(language)) continue
+      if (lines.filter((line) => line.trim()).length <= limit) continue
+      result.push({ start, end, language, lines })
+    }
+    return result
+  }
+
+  // The first line of the block, as a place to start from, when it is short enough to read at a glance
+  function hint(block: Block) {
+    const first = block.lines.find((line) => line.trim())?.trim()
+    const size = block.lines.filter((line) => line.trim()).length
+    const kind = block.language ? `${block.language} ` : ""
+    const lead = `_[${size}-line ${kind}code block withheld: this mode leaves the writing to you.`
+    if (!first || first.length > 80) return `${lead} Ask for a hint if you get stuck.]_`
+    return `${lead} Start from \`${first.replaceAll("`", "'")}\`.]_`
+  }
+
+  export function redact(text: string, found: Block[]) {
+    return found.toReversed().reduce((result, block) => {
+      return result.slice(0, block.start) + hint(block) + result.slice(block.end)
+    }, text)
+  }
+
+  /**
+   * Redact an agent's reply if it breaks the agent's no-code rule. Returns
+   * undefined when the agent has no guard or the text passes.
+   */
+  export function check(agent: Pick<Agent.Info, "noCode">, text: string) {
+    if (!agent.noCode) return
+    const found = blocks(text, agent.noCode.lines)
+    if (!found.length) return
+    return {
+      text: redact(text, found),
+      lines: found.reduce((sum, block) => sum + block.lines.filter((line) => line.trim()).length, 0),
+    }
+  }
+
+  const CORRECTION = "Your last reply included code the user is meant to write themselves, so it was withheld from them."
+
+  /**
+   * The synthetic message that re-prompts the model after a hit.
+   */
+  export function correction(lines: number) {
+    return [
+      CORRECTION,
+      `Answer again without code blocks longer than ${lines} lines: describe the approach, name the functions, types and files involved, and point to what needs to change.`,
+    ].join(" ")
+  }
+
+  // Re-prompting once per turn is enough; a second hit is only redacted
+  export function corrected(text: string) {
+    return text.startsWith(CORRECTION)
+  }
+}
@@ -12,6 +12,8 @@ import { Installation } from "../installation"
 
 import { Database, NotFoundError, eq, and, or, gte, isNull, desc, like } from "../storage/db"
 import { SessionTable, MessageTable, PartTable } from "./session.sql"
+import { DebugPhase } from "./debug-phase"
+import { SessionAdaptive } from "./adaptive"
 import { Storage } from "@/storage/storage"
 import { Log } from "../util/log"
 import { MessageV2 } from "./message-v2"
@@ -69,6 +71,8 @@ export namespace Session {
       share,
       revert,
       permission: row.permission ?? undefined,
+      mode: row.mode ?? undefined,
+      guard: row.guard ?? undefined,
       time: {
         created: row.time_created,
         updated: row.time_updated,
@@ -94,6 +98,8 @@ export namespace Session {
       summary_diffs: info.summary?.diffs,
       revert: info.revert ?? null,
       permission: info.permission,
+      mode: info.mode,
+      guard: info.guard,
       time_created: info.time.created,
       time_updated: info.time.updated,
       time_compacting: info.time.compacting,
@@ -140,6 +146,15 @@ export namespace Session {
         archived: z.number().optional(),
       }),
       permission: PermissionNext.Ruleset.optional(),
+      mode: z.string().optional().describe("Current sub-mode of the adaptive agent"),
+      guard: z
+        .object({
+          hits: z.number().describe("Replies in which the output guard caught a code block"),
+          reprompts: z.number().describe("Hits the model was re-prompted for"),
+          lines: z.number().describe("Lines of code withheld from the user"),
+        })
+        .optional()
+        .describe("How often a no-code agent's output guard fired in this session"),
       revert: z
         .object({
           messageID: z.string(),
@@ -388,6 +403,65 @@ export namespace Session {
     },
   )
 
+  export const setMode = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      mode: z.string().optional(),
+    }),
+    async (input) => {
+      return Database.use((db) => {
+        const row = db
+          .update(SessionTable)
+          .set({ mode: input.mode ?? null, time_updated: Date.now() })
+          .where(eq(SessionTable.id, input.sessionID))
+          .returning()
+          .get()
+        if (!row) throw new NotFoundError({ message: `Session not found: ${input.sessionID}` })
+        const info = fromRow(row)
+        Database.effect(() => Bus.publish(Event.Updated, { info }))
+        return info
+      })
+    },
+  )
+
+  /**
+   * Count an output guard hit: a reply of a no-code agent that had code
+   * blocks withheld, and whether the model was re-prompted for it.
+   */
+  export const guarded = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      lines: z.number(),
+      reprompt: z.boolean(),
+    }),
+    async (input) => {
+      return Database.use((db) => {
+        const current = db
+          .select({ guard: SessionTable.guard })
+          .from(SessionTable)
+          .where(eq(SessionTable.id, input.sessionID))
+          .get()
+        if (!current) throw new NotFoundError({ message: `Session not found: ${input.sessionID}` })
+        const guard = current.guard ?? { hits: 0, reprompts: 0, lines: 0 }
+        const row = db
+          .update(SessionTable)
+          .set({
+            guard: {
+              hits: guard.hits + 1,
+              reprompts: guard.reprompts + (input.reprompt ? 1 : 0),
+              lines: guard.lines + input.lines,
+            },
+          })
+          .where(eq(SessionTable.id, input.sessionID))
+          .returning()
+          .get()
+        const info = fromRow(row!)
+        Database.effect(() => Bus.publish(Event.Updated, { info }))
+        return info
+      })
+    },
+  )
+
   export const setPermission = fn(
     z.object({
       sessionID: Identifier.schema("session"),
@@ -567,6 +641,8 @@ export namespace Session {
       // CASCADE delete handles messages and parts automatically
       Database.use((db) => {
         db.delete(SessionTable).where(eq(SessionTable.id, sessionID)).run()
+        DebugPhase.clear(sessionID)
+        SessionAdaptive.clear(sessionID)
         Database.effect(() =>
           Bus.publish(Event.Deleted, {
             info: session,
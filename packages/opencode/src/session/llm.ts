@@ -265,8 +265,9 @@ export namespace LLM {
 
     let phaseAllowed: Set<string> | null = null
     if (DebugPhase.isDebugAgent(input.agent.name)) {
-      const state = DebugPhase.getOrCreate(input.sessionID)
-      const allowed = DebugPhase.toolsForPhase(state.currentPhase)
+      const workflow = DebugPhase.workflow(input.agent.workflow)
+      const state = DebugPhase.getOrCreate(input.sessionID, workflow)
+      const allowed = DebugPhase.toolsForPhase(state.currentPhase, workflow)
       phaseAllowed = new Set(allowed)
     }
 
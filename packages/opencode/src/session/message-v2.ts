@@ -15,6 +15,8 @@ import { ProviderError } from "@/provider/error"
 import { iife } from "@/util/iife"
 import { type SystemError } from "bun"
 import type { Provider } from "@/provider/provider"
+import { Standards } from "@/agent/standards"
+import { Assessor } from "@/agent/assessor"
 
 export namespace MessageV2 {
   export const OutputLengthError = NamedError.create("MessageOutputLengthError", z.object({}))
@@ -230,6 +232,15 @@ export namespace MessageV2 {
   })
   export type RetryPart = z.infer<typeof RetryPart>
 
+  export const ReviewPart = PartBase.extend({
+    type: z.literal("review"),
+    verdict: z.enum(["pass", "fail"]),
+    violations: Standards.Violation.array(),
+  }).meta({
+    ref: "ReviewPart",
+  })
+  export type ReviewPart = z.infer<typeof ReviewPart>
+
   export const StepStartPart = PartBase.extend({
     type: z.literal("step-start"),
     snapshot: z.string().optional(),
@@ -363,6 +374,7 @@ export namespace MessageV2 {
     system: z.string().optional(),
     tools: z.record(z.string(), z.boolean()).optional(),
     variant: z.string().optional(),
+    assessment: Assessor.Result.optional().describe("Why the agent was auto-selected, when none was pinned"),
   }).meta({
     ref: "UserMessage",
   })
@@ -382,6 +394,7 @@ export namespace MessageV2 {
       AgentPart,
       RetryPart,
       CompactionPart,
+      ReviewPart,
     ])
     .meta({
       ref: "Part",
@@ -16,6 +16,9 @@ import { SessionCompaction } from "./compaction"
 import { PermissionNext } from "@/permission/next"
 import { Question } from "@/question"
 import { DebugPhase } from "./debug-phase"
+import { Standards } from "@/agent/standards"
+import { SessionAdaptive } from "./adaptive"
+import { SessionGuard } from "./guard"
 
 export namespace SessionProcessor {
   const DOOM_LOOP_THRESHOLD = 3
@@ -35,17 +38,23 @@ export namespace SessionProcessor {
     let blocked = false
     let attempt = 0
     let needsCompaction = false
+    let withheld = 0
 
     const result = {
       get message() {
         return input.assistantMessage
       },
+      /** Lines of code the output guard withheld during the last `process` call. */
+      get withheld() {
+        return withheld
+      },
       partFromToolCall(toolCallID: string) {
         return toolcalls[toolCallID]
       },
       async process(streamInput: LLM.StreamInput) {
         log.info("process")
         needsCompaction = false
+        withheld = 0
         const shouldBreak = (await Config.get()).experimental?.continue_loop_on_deny !== true
         while (true) {
           try {
@@ -139,7 +148,8 @@ export namespace SessionProcessor {
                     const agent = await Agent.get(input.assistantMessage.agent)
                     if (DebugPhase.isDebugAgent(agent.name)) {
                       const phaseState = DebugPhase.get(input.sessionID)
-                      if (phaseState && !DebugPhase.isToolAllowed(phaseState.currentPhase, value.toolName)) {
+                      const workflow = DebugPhase.workflow(agent.workflow)
+                      if (phaseState && !DebugPhase.isToolAllowed(phaseState.currentPhase, value.toolName, workflow)) {
                         await Session.updatePart({
                           ...match,
                           tool: value.toolName,
@@ -215,6 +225,13 @@ export namespace SessionProcessor {
                         attachments: value.output.attachments,
                       },
                     })
+                    SessionAdaptive.tool({
+                      sessionID: input.sessionID,
+                      agent: input.assistantMessage.agent,
+                      tool: match.tool,
+                      input: value.input ?? match.state.input,
+                      metadata: value.output.metadata,
+                    })
 
                     delete toolcalls[value.toolCallId]
                   }
@@ -237,6 +254,14 @@ export namespace SessionProcessor {
                       },
                     })
 
+                    SessionAdaptive.tool({
+                      sessionID: input.sessionID,
+                      agent: input.assistantMessage.agent,
+                      tool: match.tool,
+                      input: value.input ?? match.state.input,
+                      error: true,
+                    })
+
                     if (
                       value.error instanceof PermissionNext.RejectedError ||
                       value.error instanceof Question.RejectedError
@@ -281,6 +306,7 @@ export namespace SessionProcessor {
                     cost: usage.cost,
                   })
                   await Session.updateMessage(input.assistantMessage)
+                  const changed: string[] = []
                   if (snapshot) {
                     const patch = await Snapshot.patch(snapshot)
                     if (patch.files.length) {
@@ -292,9 +318,17 @@ export namespace SessionProcessor {
                         hash: patch.hash,
                         files: patch.files,
                       })
+                      changed.push(...patch.files)
                     }
                     snapshot = undefined
                   }
+                  // The proposal waits on the user, so it must not hold up the stream
+                  SessionAdaptive.step({
+                    sessionID: input.sessionID,
+                    agent: input.assistantMessage.agent,
+                    files: changed,
+                    abort: input.abort,
+                  }).catch((error) => log.error("adaptive step failed", { error }))
                   SessionSummary.summarize({
                     sessionID: input.sessionID,
                     messageID: input.assistantMessage.parentID,
@@ -346,12 +380,29 @@ export namespace SessionProcessor {
                       { text: currentText.text },
                     )
                     currentText.text = textOutput.text
+                    const guarded = SessionGuard.check(streamInput.agent, currentText.text)
+                    if (guarded) {
+                      currentText.text = guarded.text
+                      withheld += guarded.lines
+                    }
                     currentText.time = {
                       start: Date.now(),
                       end: Date.now(),
                     }
                     if (value.providerMetadata) currentText.metadata = value.providerMetadata
                     await Session.updatePart(currentText)
+                    const review =
+                      input.assistantMessage.agent === "review" ? Standards.parseVerdict(currentText.text) : undefined
+                    if (review) {
+                      await Session.updatePart({
+                        id: Identifier.ascending("part"),
+                        messageID: input.assistantMessage.id,
+                        sessionID: input.sessionID,
+                        type: "review",
+                        verdict: review.verdict,
+                        violations: review.violations,
+                      })
+                    }
                   }
                   currentText = undefined
                   break
@@ -8,6 +8,8 @@ import { Log } from "../util/log"
 import { SessionRevert } from "./revert"
 import { Session } from "."
 import { Agent } from "../agent/agent"
+import { Assessor } from "../agent/assessor"
+import { Config } from "../config/config"
 import { Provider } from "../provider/provider"
 import { type Tool as AITool, tool, jsonSchema, type ToolCallOptions, asSchema } from "ai"
 import { SessionCompaction } from "./compaction"
@@ -16,6 +18,11 @@ import { Bus } from "../bus"
 import { ProviderTransform } from "../provider/transform"
 import { SystemPrompt } from "./system"
 import { InstructionPrompt } from "./instruction"
+import { Standards } from "../agent/standards"
+import { SessionAssess } from "./assess"
+import { SessionAdaptive } from "./adaptive"
+import { SessionGuard } from "./guard"
+import { DebugPhase } from "./debug-phase"
 import { Plugin } from "../plugin"
 import PROMPT_PLAN from "../session/prompt/plan.txt"
 import BUILD_SWITCH from "../session/prompt/build-switch.txt"
@@ -98,6 +105,15 @@ export namespace SessionPrompt {
       })
       .optional(),
     agent: z.string().optional(),
+    assessment: Assessor.Result.optional().describe(
+      "Assessment the client already ran for this prompt with the assess route. Recorded on the message when agent is its mode, instead of assessing again",
+    ),
+    override: z
+      .boolean()
+      .optional()
+      .describe(
+        "The user picked agent over the assessed mode. Remembered so similar prompts in the project follow suit",
+      ),
     noReply: z.boolean().optional(),
     tools: z
       .record(z.string(), z.boolean())
@@ -156,6 +172,20 @@ export namespace SessionPrompt {
   export type PromptInput = z.infer<typeof PromptInput>
 
   export const prompt = fn(PromptInput, async (input) => {
+    // Only a top-level prompt the client marks as an override teaches the assessor
+    const text = promptText(input)
+    if (input.override && input.agent && text && !(await Session.get(input.sessionID)).parentID) {
+      SessionAssess.learn({
+        sessionID: input.sessionID,
+        prompt: text,
+        chosen: input.agent,
+        assessed: input.assessment?.mode,
+      })
+    }
+    return send(input)
+  })
+
+  async function send(input: PromptInput) {
     const session = await Session.get(input.sessionID)
     await SessionRevert.cleanup(session)
 
@@ -182,7 +212,7 @@ export namespace SessionPrompt {
     }
 
     return loop({ sessionID: input.sessionID })
-  })
+  }
 
   export async function resolvePromptParts(template: string): Promise<PromptInput["parts"]> {
     const parts: PromptInput["parts"] = [
@@ -650,7 +680,13 @@ export namespace SessionPrompt {
       await Plugin.trigger("experimental.chat.messages.transform", {}, { messages: sessionMessages })
 
       // Build system prompt, adding structured output instruction if needed
-      const system = [...(await SystemPrompt.environment(model)), ...(await InstructionPrompt.system())]
+      const system = [
+        ...(await SystemPrompt.environment(model)),
+        ...(await InstructionPrompt.system()),
+        ...(await Standards.system(agent.name)),
+        ...(await SessionAdaptive.system(sessionID, agent.name)),
+        ...DebugPhase.system(sessionID, agent),
+      ]
       const format = lastUser.format ?? { type: "text" }
       if (format.type === "json_schema") {
         system.push(STRUCTURED_OUTPUT_SYSTEM_PROMPT)
@@ -702,6 +738,36 @@ export namespace SessionPrompt {
         }
       }
 
+      if (processor.withheld) {
+        const corrected = msgs
+          .find((msg) => msg.info.id === lastUser.id)
+          ?.parts.some((part) => part.type === "text" && part.synthetic && SessionGuard.corrected(part.text))
+        const reprompt = agent.noCode?.action === "reprompt" && !corrected && !!modelFinished && result === "continue"
+        await Session.guarded({ sessionID, lines: processor.withheld, reprompt })
+        if (reprompt) {
+          const correction: MessageV2.User = {
+            id: Identifier.ascending("message"),
+            sessionID,
+            role: "user",
+            time: {
+              created: Date.now(),
+            },
+            agent: lastUser.agent,
+            model: lastUser.model,
+          }
+          await Session.updateMessage(correction)
+          await Session.updatePart({
+            id: Identifier.ascending("part"),
+            messageID: correction.id,
+            sessionID,
+            type: "text",
+            text: SessionGuard.correction(agent.noCode!.lines),
+            synthetic: true,
+          } satisfies MessageV2.TextPart)
+          continue
+        }
+      }
+
       if (result === "stop") break
       if (result === "compact") {
         await SessionCompaction.create({
@@ -948,8 +1014,45 @@ export namespace SessionPrompt {
     })
   }
 
+  export const AssessInput = z.object({
+    sessionID: Identifier.schema("session"),
+    text: z.string(),
+  })
+  export type AssessInput = z.infer<typeof AssessInput>
+
+  /**
+   * Assess which mode a prompt calls for, the same way the prompt pipeline
+   * does when no agent is pinned, so clients can explain the choice up front.
+   */
+  export const assess = fn(AssessInput, async (input) => {
+    await Session.get(input.sessionID)
+    return SessionAssess.assess(input.text)
+  })
+
+  function promptText(input: PromptInput) {
+    return input.parts
+      .flatMap((part) => (part.type === "text" && !part.synthetic ? [part.text] : []))
+      .join("\n")
+      .trim()
+  }
+
+  // Only an assessment that resolves to a selectable primary agent is used. A
+  // configured default_agent pins the mode just like an agent on the prompt.
+  async function autoselect(input: PromptInput) {
+    if (input.agent) return input.assessment?.mode === input.agent ? input.assessment : undefined
+    if ((await Config.get()).default_agent) return
+    const text = promptText(input)
+    if (!text) return
+    const result = await assess({ sessionID: input.sessionID, text })
+    const agent = await Agent.get(result.mode)
+    if (!agent || agent.mode === "subagent" || agent.hidden) return
+    log.info("assessed", { sessionID: input.sessionID, mode: result.mode, confidence: result.confidence })
+    return result
+  }
+
   async function createUserMessage(input: PromptInput) {
-    const agent = await Agent.get(input.agent ?? (await Agent.defaultAgent()))
+    const assessment = await autoselect(input)
+    const agent = await Agent.get(input.agent ?? assessment?.mode ?? (await Agent.defaultAgent()))
 
     const model = input.model ?? agent.model ?? (await lastModel(input.sessionID))
     const full =
@@ -971,6 +1074,7 @@ export namespace SessionPrompt {
       system: input.system,
       format: input.format,
       variant,
+      assessment,
     }
     using _ = defer(() => InstructionPrompt.clear(info.id))
 
@@ -1866,7 +1970,8 @@ NOTE: At any point in time through this workflow you should feel free to ask the
       { parts },
     )
 
-    const result = (await prompt({
+    // The command picks the agent, so this is not an override to learn from
+    const result = (await send({
       sessionID: input.sessionID,
       messageID: input.messageID,
       model: userModel,
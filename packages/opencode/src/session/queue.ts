@@ -0,0 +1,450 @@
+import z from "zod"
+import { Bus } from "@/bus"
+import { BusEvent } from "@/bus/bus-event"
+import { Identifier } from "@/id/id"
+import { Instance } from "@/project/instance"
+import { Agent } from "@/agent/agent"
+import { Standards } from "@/agent/standards"
+import { StandardsLint } from "@/agent/lint"
+import { Snapshot } from "@/snapshot"
+import { Database, NotFoundError, and, asc, eq } from "@/storage/db"
+import { Log } from "@/util/log"
+import { fn } from "@/util/fn"
+import { Session } from "."
+import { MessageV2 } from "./message-v2"
+import { SessionPrompt } from "./prompt"
+import { QueueTaskTable } from "./session.sql"
+
+/**
+ * Per-session task queue for the vibe agent. Each task runs in its own child
+ * session, one at a time, so its snapshot diff and review verdict cover only
+ * that task's changes.
+ */
+export namespace SessionQueue {
+  const log = Log.create({ service: "session.queue" })
+
+  const DEFAULT_AGENT = "general"
+  const REVIEW_AGENT = "review"
+  const MAX_REVIEWS = 3
+
+  export const Status = z.enum(["pending", "running", "completed", "failed", "cancelled"]).meta({
+    ref: "QueueTaskStatus",
+  })
+  export type Status = z.infer<typeof Status>
+
+  export const File = Snapshot.FileDiff.omit({ before: true, after: true }).meta({
+    ref: "QueueTaskFile",
+  })
+  export type File = z.infer<typeof File>
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("task"),
+      sessionID: z.string(),
+      childID: z.string().optional().describe("Child session the task ran in"),
+      title: z.string(),
+      prompt: z.string(),
+      agent: z.string(),
+      status: Status,
+      position: z.number(),
+      snapshot: z
+        .object({
+          from: z.string(),
+          to: z.string().optional(),
+        })
+        .optional(),
+      files: File.array().describe("Files changed by the task"),
+      review: Standards.Verdict.optional(),
+      error: z.string().optional(),
+      time: z.object({
+        created: z.number(),
+        updated: z.number(),
+        started: z.number().optional(),
+        completed: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "QueueTask",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Input = z.object({
+    title: z.string().describe("A short (3-5 words) description of the task"),
+    prompt: z.string().describe("The full instructions for the task"),
+    agent: z.string().optional().describe("Subagent to run the task with, defaults to general"),
+  })
+  export type Input = z.infer<typeof Input>
+
+  export const Event = {
+    Updated: BusEvent.define(
+      "session.queue.updated",
+      z.object({
+        sessionID: z.string(),
+        tasks: Info.array(),
+      }),
+    ),
+  }
+
+  type Row = typeof QueueTaskTable.$inferSelect
+
+  function fromRow(row: Row): Info {
+    return {
+      id: row.id,
+      sessionID: row.session_id,
+      childID: row.child_id ?? undefined,
+      title: row.title,
+      prompt: row.prompt,
+      agent: row.agent,
+      status: row.status as Status,
+      position: row.position,
+      snapshot: row.snapshot_from ? { from: row.snapshot_from, to: row.snapshot_to ?? undefined } : undefined,
+      files: row.files ?? [],
+      review: row.review ?? undefined,
+      error: row.error ?? undefined,
+      time: {
+        created: row.time_created,
+        updated: row.time_updated,
+        started: row.time_started ?? undefined,
+        completed: row.time_completed ?? undefined,
+      },
+    }
+  }
+
+  export function list(sessionID: string) {
+    const rows = Database.use((db) =>
+      db
+        .select()
+        .from(QueueTaskTable)
+        .where(eq(QueueTaskTable.session_id, sessionID))
+        .orderBy(asc(QueueTaskTable.position))
+        .all(),
+    )
+    return rows.map(fromRow)
+  }
+
+  export function get(input: { sessionID: string; taskID: string }) {
+    const row = Database.use((db) =>
+      db
+        .select()
+        .from(QueueTaskTable)
+        .where(and(eq(QueueTaskTable.session_id, input.sessionID), eq(QueueTaskTable.id, input.taskID)))
+        .get(),
+    )
+    if (!row) throw new NotFoundError({ message: `Queue task not found: ${input.taskID}` })
+    return fromRow(row)
+  }
+
+  function reload(task: Info) {
+    return get({ sessionID: task.sessionID, taskID: task.id })
+  }
+
+  function publish(sessionID: string) {
+    Database.effect(() => Bus.publish(Event.Updated, { sessionID, tasks: list(sessionID) }))
+  }
+
+  function update(task: Info, values: Partial<typeof QueueTaskTable.$inferInsert>) {
+    Database.use((db) => {
+      db.update(QueueTaskTable)
+        .set({ ...values, time_updated: Date.now() })
+        .where(eq(QueueTaskTable.id, task.id))
+        .run()
+      publish(task.sessionID)
+    })
+  }
+
+  function next(sessionID: string) {
+    return list(sessionID).reduce((max, task) => Math.max(max, task.position + 1), 0)
+  }
+
+  export const add = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      tasks: Input.array(),
+    }),
+    async (input) => {
+      await Session.get(input.sessionID)
+      const start = next(input.sessionID)
+      const now = Date.now()
+      const ids = input.tasks.map(() => Identifier.ascending("task"))
+      Database.use((db) => {
+        if (input.tasks.length === 0) return
+        db.insert(QueueTaskTable)
+          .values(
+            input.tasks.map((task, index) => ({
+              id: ids[index],
+              session_id: input.sessionID,
+              title: task.title,
+              prompt: task.prompt,
+              agent: task.agent ?? DEFAULT_AGENT,
+              status: "pending",
+              position: start + index,
+              time_created: now,
+              time_updated: now,
+            })),
+          )
+          .run()
+        publish(input.sessionID)
+      })
+      return list(input.sessionID).filter((task) => ids.includes(task.id))
+    },
+  )
+
+  /**
+   * Move the given tasks to the front of the queue in the given order. Tasks
+   * not listed keep their relative order after them.
+   */
+  export const reorder = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      order: z.string().array(),
+    }),
+    async (input) => {
+      const tasks = list(input.sessionID)
+      const rank = (task: Info) => {
+        const index = input.order.indexOf(task.id)
+        return index === -1 ? input.order.length : index
+      }
+      const sorted = tasks.toSorted((a, b) => rank(a) - rank(b) || a.position - b.position)
+      Database.transaction((db) => {
+        sorted.forEach((task, position) => {
+          if (task.position === position) return
+          db.update(QueueTaskTable)
+            .set({ position, time_updated: Date.now() })
+            .where(eq(QueueTaskTable.id, task.id))
+            .run()
+        })
+        publish(input.sessionID)
+      })
+      return list(input.sessionID)
+    },
+  )
+
+  /**
+   * Cancel a pending or running task. A running task's child session is
+   * aborted; tasks that already finished are left as they are.
+   */
+  export const cancel = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      taskID: Identifier.schema("task"),
+    }),
+    async (input) => {
+      const task = get(input)
+      if (task.status !== "pending" && task.status !== "running") return task
+      update(task, { status: "cancelled", time_completed: Date.now() })
+      if (task.status === "running" && task.childID) SessionPrompt.cancel(task.childID)
+      return get(input)
+    },
+  )
+
+  /**
+   * Put a finished, failed or cancelled task back at the end of the queue.
+   * It runs again in a new child session.
+   */
+  export const requeue = fn(
+    z.object({
+      sessionID: Identifier.schema("session"),
+      taskID: Identifier.schema("task"),
+    }),
+    async (input) => {
+      const task = get(input)
+      if (task.status === "pending" || task.status === "running") return task
+      update(task, {
+        status: "pending",
+        position: next(input.sessionID),
+        child_id: null,
+        snapshot_from: null,
+        snapshot_to: null,
+        files: null,
+        review: null,
+        error: null,
+        time_started: null,
+        time_completed: null,
+      })
+      return get(input)
+    },
+  )
+
+  export async function diff(input: { sessionID: string; taskID: string }) {
+    const task = get(input)
+    if (!task.snapshot?.to) return []
+    return Snapshot.diffFull(task.snapshot.from, task.snapshot.to)
+  }
+
+  const state = Instance.state(() => {
+    const data: Record<string, Promise<Info[]> | undefined> = {}
+    return data
+  })
+
+  export function running(sessionID: string) {
+    return state()[sessionID] !== undefined
+  }
+
+  /**
+   * Run pending tasks in order until none are left. Tasks added while the
+   * queue runs are picked up too. Calling this while the queue is already
+   * running returns the same run.
+   */
+  export function run(input: {
+    sessionID: string
+    model?: { providerID: string; modelID: string }
+    abort?: AbortSignal
+  }) {
+    const s = state()
+    const existing = s[input.sessionID]
+    if (existing) return existing
+    const result = (async () => {
+      // A task left running by an earlier process never finished
+      for (const task of list(input.sessionID)) {
+        if (task.status === "running")
+          update(task, { status: "failed", error: "Interrupted", time_completed: Date.now() })
+      }
+      const model = input.model ?? (await lastModel(input.sessionID))
+      while (!input.abort?.aborted) {
+        const task = list(input.sessionID).find((item) => item.status === "pending")
+        if (!task) break
+        await execute(task, model, input.abort)
+      }
+      return list(input.sessionID)
+    })().finally(() => {
+      delete s[input.sessionID]
+    })
+    s[input.sessionID] = result
+    return result
+  }
+
+  async function lastModel(sessionID: string) {
+    for await (const item of MessageV2.stream(sessionID)) {
+      if (item.info.role === "user" && item.info.model) return item.info.model
+    }
+  }
+
+  async function execute(
+    task: Info,
+    model: { providerID: string; modelID: string } | undefined,
+    abort: AbortSignal | undefined,
+  ) {
+    const child = await Session.create({
+      parentID: task.sessionID,
+      title: `${task.title} (queue task)`,
+      permission: [
+        { permission: "todowrite", pattern: "*", action: "deny" },
+        { permission: "todoread", pattern: "*", action: "deny" },
+        { permission: "queue", pattern: "*", action: "deny" },
+      ],
+    })
+    const from = await Snapshot.track()
+    log.info("start", { taskID: task.id, childID: child.id })
+    update(task, {
+      status: "running",
+      child_id: child.id,
+      snapshot_from: from ?? null,
+      time_started: Date.now(),
+    })
+
+    const cancel = () => SessionPrompt.cancel(child.id)
+    abort?.addEventListener("abort", cancel)
+    const outcome = await attempt(task, child.id, model)
+      .catch((error): Outcome => ({ error: error instanceof Error ? error.message : String(error) }))
+      .finally(() => abort?.removeEventListener("abort", cancel))
+
+    const to = from ? await Snapshot.track() : undefined
+    const files = from && to ? await Snapshot.diffFull(from, to) : []
+    const current = reload(task)
+    const status: Status =
+      current.status === "cancelled" || abort?.aborted ? "cancelled" : outcome.error ? "failed" : "completed"
+    log.info("finish", { taskID: task.id, status })
+    update(task, {
+      status,
+      snapshot_to: to ?? null,
+      files: files.map(({ before, after, ...file }) => file),
+      review: outcome.review ?? null,
+      error: outcome.error ?? null,
+      time_completed: Date.now(),
+    })
+  }
+
+  type Outcome = { review?: Standards.Verdict; error?: string }
+
+  async function attempt(
+    task: Info,
+    childID: string,
+    model: { providerID: string; modelID: string } | undefined,
+  ): Promise<Outcome> {
+    const send = async (agent: string, text: string) => {
+      const result = await SessionPrompt.prompt({
+        sessionID: childID,
+        agent,
+        model,
+        parts: [{ type: "text", text }],
+      })
+      if (result.info.role === "assistant" && result.info.error) {
+        const error = result.info.error
+        throw new Error("message" in error.data && error.data.message ? String(error.data.message) : error.name)
+      }
+      return result
+    }
+
+    await send(task.agent, task.prompt)
+    const reviewer = await Agent.get(REVIEW_AGENT)
+    if (!reviewer) return {}
+
+    let review: Standards.Verdict | undefined
+    for (let round = 0; round < MAX_REVIEWS; round++) {
+      if (reload(task).status === "cancelled") break
+      const snapshot = reload(task).snapshot
+      const changes = snapshot ? await Snapshot.diff(snapshot.from) : ""
+      if (!snapshot || !changes) break
+      // The mechanical checks are cheap, so the review agent only runs once they pass
+      const violations = await StandardsLint.since(snapshot.from)
+      if (violations.length) review = { verdict: "fail", violations }
+      else {
+        const result = await send(REVIEW_AGENT, ["Review the changes made for this task.", "", changes].join("\n"))
+        const part = result.parts.findLast((item): item is MessageV2.ReviewPart => item.type === "review")
+        if (!part) break
+        review = { verdict: part.verdict, violations: part.violations }
+      }
+      if (review.verdict === "pass" || round === MAX_REVIEWS - 1) break
+      await send(
+        task.agent,
+        [
+          "The review found these violations. Fix them:",
+          ...review.violations.map(
+            (item) =>
+              `- ${item.file}${item.line ? `:${item.line}` : ""} [${item.standard}/${item.rule}] ${item.explanation}`,
+          ),
+        ].join("\n"),
+      )
+    }
+    return { review }
+  }
+
+  /**
+   * End-of-run summary: what each task did, the files it changed and any
+   * remaining review issues or failures.
+   */
+  export function summary(tasks: Info[]) {
+    return tasks
+      .map((task) => {
+        const lines = [`## ${task.title} (${task.status})`, `task_id: ${task.id}`]
+        if (task.childID) lines.push(`session: ${task.childID}`)
+        if (task.files.length) {
+          lines.push(
+            "Files changed:",
+            ...task.files.map((file) => `- ${file.file} (+${file.additions} -${file.deletions})`),
+          )
+        }
+        if (task.review?.verdict === "fail") {
+          lines.push(
+            "Remaining review issues:",
+            ...task.review.violations.map(
+              (item) => `- ${item.file}${item.line ? `:${item.line}` : ""} ${item.explanation}`,
+            ),
+          )
+        }
+        if (task.error) lines.push(`Error: ${task.error}`)
+        return lines.join("\n")
+      })
+      .join("\n\n")
+  }
+}
@@ -3,6 +3,7 @@ import { ProjectTable } from "../project/project.sql"
 import type { MessageV2 } from "./message-v2"
 import type { Snapshot } from "@/snapshot"
 import type { PermissionNext } from "@/permission/next"
+import type { Standards } from "@/agent/standards"
 import { Timestamps } from "@/storage/schema.sql"
 
 type PartData = Omit<MessageV2.Part, "id" | "sessionID" | "messageID">
@@ -31,6 +32,7 @@ export const SessionTable = sqliteTable(
     time_compacting: integer(),
     time_archived: integer(),
     mode: text(),
+    guard: text({ mode: "json" }).$type<{ hits: number; reprompts: number; lines: number }>(),
   },
   (table) => [index("session_project_idx").on(table.project_id), index("session_parent_idx").on(table.parent_id)],
 )
@@ -80,6 +82,59 @@ export const TodoTable = sqliteTable(
   ],
 )
 
+export const DebugPhaseTable = sqliteTable("debug_phase", {
+  session_id: text()
+    .primaryKey()
+    .references(() => SessionTable.id, { onDelete: "cascade" }),
+  phase: text().notNull(),
+  step: integer().notNull(),
+  total_steps: integer(),
+  step_descriptions: text({ mode: "json" }).notNull().$type<string[]>(),
+  auto_confirm: integer({ mode: "boolean" }).notNull(),
+  ...Timestamps,
+})
+
+export const AssessorOverrideTable = sqliteTable(
+  "assessor_override",
+  {
+    id: text().primaryKey(),
+    project_id: text()
+      .notNull()
+      .references(() => ProjectTable.id, { onDelete: "cascade" }),
+    session_id: text().notNull(),
+    assessed: text().notNull(),
+    chosen: text().notNull(),
+    terms: text({ mode: "json" }).$type<string[]>(),
+    ...Timestamps,
+  },
+  (table) => [index("assessor_override_project_idx").on(table.project_id)],
+)
+
+export const QueueTaskTable = sqliteTable(
+  "queue_task",
+  {
+    id: text().primaryKey(),
+    session_id: text()
+      .notNull()
+      .references(() => SessionTable.id, { onDelete: "cascade" }),
+    child_id: text(),
+    title: text().notNull(),
+    prompt: text().notNull(),
+    agent: text().notNull(),
+    status: text().notNull(),
+    position: integer().notNull(),
+    snapshot_from: text(),
+    snapshot_to: text(),
+    files: text({ mode: "json" }).$type<Omit<Snapshot.FileDiff, "before" | "after">[]>(),
+    review: text({ mode: "json" }).$type<Standards.Verdict>(),
+    error: text(),
+    ...Timestamps,
+    time_started: integer(),
+    time_completed: integer(),
+  },
+  (table) => [index("queue_task_session_idx").on(table.session_id)],
+)
+
 export const PermissionTable = sqliteTable("permission", {
   project_id: text()
     .primaryKey()
@@ -1,4 +1,14 @@
 export { ControlAccountTable } from "../control/control.sql"
-export { SessionTable, MessageTable, PartTable, TodoTable, PermissionTable } from "../session/session.sql"
+export {
+  SessionTable,
+  MessageTable,
+  PartTable,
+  TodoTable,
+  PermissionTable,
+  DebugPhaseTable,
+  AssessorOverrideTable,
+  QueueTaskTable,
+} from "../session/session.sql"
 export { SessionShareTable } from "../share/share.sql"
 export { ProjectTable } from "../project/project.sql"
+export { QuizTable } from "../question/quiz.sql"
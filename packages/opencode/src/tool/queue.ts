@@ -0,0 +1,42 @@
+import z from "zod"
+import { Tool } from "./tool"
+import { MessageV2 } from "../session/message-v2"
+import { SessionQueue } from "../session/queue"
+
+export const QueueTool = Tool.define("queue", {
+  description: [
+    "Add tasks to this session's task queue and run every pending task in order.",
+    "Each task runs in its own child session with the given subagent. Its diff is reviewed against the quality standards and violations are fixed, up to 3 review rounds.",
+    "Confirm the task list with the user before calling this. Call it with no tasks to run tasks the user re-queued.",
+    "The result is a summary per task: its status, the files it changed, remaining review issues and any failure.",
+  ].join("\n"),
+  parameters: z.object({
+    tasks: SessionQueue.Input.array().optional().describe("Tasks to add to the end of the queue"),
+  }),
+  async execute(params, ctx) {
+    if (params.tasks?.length) await SessionQueue.add({ sessionID: ctx.sessionID, tasks: params.tasks })
+    const msg = await MessageV2.get({ sessionID: ctx.sessionID, messageID: ctx.messageID })
+    if (msg.info.role !== "assistant") throw new Error("Not an assistant message")
+
+    const before = new Set(
+      SessionQueue.list(ctx.sessionID)
+        .filter((task) => task.status !== "pending")
+        .map((task) => task.id),
+    )
+    const tasks = await SessionQueue.run({
+      sessionID: ctx.sessionID,
+      model: { providerID: msg.info.providerID, modelID: msg.info.modelID },
+      abort: ctx.abort,
+    })
+    const ran = tasks.filter((task) => !before.has(task.id))
+    const count = (status: SessionQueue.Status) => ran.filter((task) => task.status === status).length
+
+    return {
+      title: `${count("completed")} of ${ran.length} tasks completed`,
+      output: ran.length ? SessionQueue.summary(ran) : "No pending tasks in the queue.",
+      metadata: {
+        tasks: ran,
+      },
+    }
+  },
+})
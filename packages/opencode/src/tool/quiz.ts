@@ -0,0 +1,44 @@
+import z from "zod"
+import { Tool } from "./tool"
+import { Quiz } from "../question/quiz"
+import { DebugPhase } from "../session/debug-phase"
+
+export const QuizTool = Tool.define("quiz", {
+  description: [
+    "Ask the user a comprehension question about the code being debugged, then grade and record their answer.",
+    "Use this instead of asking in plain text when checking understanding at a breakpoint.",
+    "Provide the answer you expect; free-text answers are scored by how many of its key terms they mention (override them with `keywords`).",
+    "Pass `options` for a multiple-choice question. Pass `file` and `line` for the code the question is about so results can be summarized per file.",
+    "The result includes the verdict and the expected answer; give the user feedback on it before continuing.",
+  ].join("\n"),
+  parameters: z.object({
+    question: z.string().describe("The comprehension question"),
+    expected: z.string().describe("The answer you expect, used to grade the user's reply"),
+    options: z.array(z.string()).optional().describe("Choices for a multiple-choice question"),
+    keywords: z.array(z.string()).optional().describe("Key terms a correct free-text answer must mention"),
+    file: z.string().optional().describe("File the question is about"),
+    line: z.number().int().optional().describe("Line the question is about"),
+  }),
+  async execute(params, ctx) {
+    const phase = DebugPhase.get(ctx.sessionID)
+    const result = await Quiz.ask({
+      ...params,
+      sessionID: ctx.sessionID,
+      step: phase?.currentStep ?? 0,
+      phase: phase?.currentPhase,
+      tool: ctx.callID ? { messageID: ctx.messageID, callID: ctx.callID } : undefined,
+    })
+
+    return {
+      title: `Quiz: ${result.verdict}`,
+      output: [
+        `User answered: ${result.answer ?? "(no answer)"}`,
+        `Expected: ${result.expected}`,
+        `Verdict: ${result.verdict} (score ${result.score})`,
+      ].join("\n"),
+      metadata: {
+        quiz: result,
+      },
+    }
+  },
+})
@@ -28,6 +28,8 @@ import { Truncate } from "./truncation"
 import { PlanExitTool, PlanEnterTool } from "./plan"
 import { ApplyPatchTool } from "./apply_patch"
 import { TransitionPhaseTool } from "./transition-phase"
+import { QuizTool } from "./quiz"
+import { QueueTool } from "./queue"
 
 export namespace ToolRegistry {
   const log = Log.create({ service: "tool.registry" })
@@ -99,7 +101,7 @@ export namespace ToolRegistry {
 
     return [
       InvalidTool,
-      ...(question ? [QuestionTool] : []),
+      ...(question ? [QuestionTool, QuizTool] : []),
       BashTool,
       ReadTool,
       GlobTool,
@@ -107,6 +109,7 @@ export namespace ToolRegistry {
       EditTool,
       WriteTool,
       TaskTool,
+      QueueTool,
       WebFetchTool,
       TodoWriteTool,
       // TodoReadTool,
@@ -10,6 +10,8 @@ import { iife } from "@/util/iife"
 import { defer } from "@/util/defer"
 import { Config } from "../config/config"
 import { PermissionNext } from "@/permission/next"
+import { Standards } from "@/agent/standards"
+import { StandardsLint } from "@/agent/lint"
 
 const parameters = z.object({
   description: z.string().describe("A short (3-5 words) description of the task"),
@@ -63,6 +65,56 @@ export const TaskTool = Tool.define("task", async (ctx) => {
 
       const hasTaskPermission = agent.permission.some((rule) => rule.permission === "task")
 
+      const msg = await MessageV2.get({ sessionID: ctx.sessionID, messageID: ctx.messageID })
+      if (msg.info.role !== "assistant") throw new Error("Not an assistant message")
+
+      const model = agent.model ?? {
+        modelID: msg.info.modelID,
+        providerID: msg.info.providerID,
+      }
+
+      // Surface a review verdict in the calling session, where the user is
+      // looking, rather than only inside the child session
+      const surface = (review: Standards.Verdict) =>
+        Session.updatePart({
+          id: Identifier.ascending("part"),
+          messageID: ctx.messageID,
+          sessionID: ctx.sessionID,
+          type: "review",
+          verdict: review.verdict,
+          violations: review.violations,
+        })
+
+      // The mechanical checks are cheap, so the review agent only runs once
+      // the caller's changes pass them
+      if (agent.name === "review" && !params.task_id) {
+        const from = await Session.messages({ sessionID: ctx.sessionID }).then((messages) =>
+          messages
+            .flatMap((item) => item.parts)
+            .flatMap((part) => (part.type === "step-start" && part.snapshot ? [part.snapshot] : []))
+            .at(0),
+        )
+        const violations = from ? await StandardsLint.since(from) : []
+        if (violations.length) {
+          const review: Standards.Verdict = { verdict: "fail", violations }
+          await surface(review)
+          return {
+            title: params.description,
+            metadata: {
+              sessionId: undefined as string | undefined,
+              model,
+            },
+            output: [
+              "<task_result>",
+              "The standards checks failed before the review agent ran. Fix these, then review again.",
+              "",
+              JSON.stringify(review, null, 2),
+              "</task_result>",
+            ].join("\n"),
+          }
+        }
+      }
+
       const session = await iife(async () => {
         if (params.task_id) {
           const found = await Session.get(params.task_id).catch(() => {})
@@ -100,14 +152,6 @@ export const TaskTool = Tool.define("task", async (ctx) => {
           ],
         })
       })
-      const msg = await MessageV2.get({ sessionID: ctx.sessionID, messageID: ctx.messageID })
-      if (msg.info.role !== "assistant") throw new Error("Not an assistant message")
-
-      const model = agent.model ?? {
-        modelID: msg.info.modelID,
-        providerID: msg.info.providerID,
-      }
-
       ctx.metadata({
         title: params.description,
         metadata: {
@@ -144,6 +188,9 @@ export const TaskTool = Tool.define("task", async (ctx) => {
 
       const text = result.parts.findLast((x) => x.type === "text")?.text ?? ""
 
+      const review = agent.name === "review" ? Standards.parseVerdict(text) : undefined
+      if (review) await surface(review)
+
       const output = [
         `task_id: ${session.id} (for resuming to continue this task if needed)`,
         "",
@@ -1,29 +1,35 @@
 import z from "zod"
 import { Tool } from "./tool"
+import { Agent } from "../agent/agent"
 import { DebugPhase } from "../session/debug-phase"
 
 export const TransitionPhaseTool = Tool.define("transitionPhase", {
   description: [
-    "Move to the next phase of the debug workflow.",
-    "Valid phases: PLANNING, CODING, BREAKPOINTING, DEBUGGING, EXPLAINING, CONFIRMING.",
-    "Transitions must follow the sequence: PLANNING -> CODING -> BREAKPOINTING -> DEBUGGING -> EXPLAINING -> CONFIRMING -> PLANNING (next step).",
+    "Move to another phase of the debug workflow.",
+    "The phases and the transitions allowed between them come from the debug agent's workflow configuration.",
+    "By default the sequence is: PLANNING -> CODING -> BREAKPOINTING -> DEBUGGING -> EXPLAINING -> CONFIRMING -> PLANNING (next step).",
+    "Returning to the initial phase starts the next step.",
     "Call this when you have completed the work for the current phase.",
   ].join("\n"),
   parameters: z.object({
-    to: z.enum(DebugPhase.PHASES).describe("The phase to transition to"),
+    to: z.string().describe("The phase to transition to"),
     reason: z.string().describe("Brief explanation of why you are transitioning"),
   }),
   async execute(args, ctx) {
-    const state = DebugPhase.getOrCreate(ctx.sessionID)
+    const agent = await Agent.get(ctx.agent)
+    const workflow = DebugPhase.workflow(agent?.workflow)
+    const state = DebugPhase.getOrCreate(ctx.sessionID, workflow)
     try {
-      const next = DebugPhase.transition(state, args.to)
-      const allowedTools = DebugPhase.toolsForPhase(next.currentPhase)
+      const next = DebugPhase.transition(state, args.to, workflow)
+      const allowedTools = DebugPhase.toolsForPhase(next.currentPhase, workflow)
+      const transitions = DebugPhase.transitionsFrom(next.currentPhase, workflow)
       return {
         title: `Phase: ${next.currentPhase}`,
         output: [
           `Transitioned to ${next.currentPhase} (step ${next.currentStep}).`,
           `Reason: ${args.reason}`,
           `Available tools: ${allowedTools.join(", ")}`,
+          `Next phases: ${transitions.join(", ")}`,
         ].join("\n"),
         metadata: {
           phase: next.currentPhase,
@@ -79,3 +79,93 @@ describe("Assessor", () => {
     }
   })
 })
+
+describe("Assessor repo signals", () => {
+  const signals = (input: Partial<Assessor.Signals>): Assessor.Signals => ({
+    files: [],
+    untested: [],
+    packages: ["."],
+    ...input,
+  })
+
+  test("untested files raise complexity and are named in the reason", () => {
+    const result = Assessor.analyze("fix the typo in src/index.ts", {
+      signals: signals({ files: ["src/index.ts"], untested: ["src/index.ts"] }),
+    })
+    expect(result.mode).toBe("claw")
+    expect(result.complexity).toBe(Assessor.analyze("fix the typo in src/index.ts").complexity + 3)
+    expect(result.reason).toContain("1 untested file(s)")
+  })
+
+  test("cross-package spread raises complexity per extra package", () => {
+    const prompt = "update packages/a/index.ts"
+    const base = Assessor.analyze(prompt)
+    const result = Assessor.analyze(prompt, {
+      signals: signals({ packages: ["packages/a", "packages/b", "packages/c"] }),
+    })
+    expect(result.complexity).toBe(base.complexity + 10)
+  })
+
+  test("signals never change learning or multi-task detection", () => {
+    const context = { signals: signals({ packages: ["a", "b", "c", "d"], untested: ["a/x.ts"] }) }
+    expect(Assessor.analyze("explain how this function works", context).mode).toBe("pair")
+    expect(Assessor.analyze("add a login button and update the header styles", context).mode).toBe("vibe")
+  })
+})
+
+describe("Assessor override history", () => {
+  const override = (
+    assessed: Assessor.Mode,
+    chosen: string,
+    prompt = "fix the flaky payment refactor",
+  ): Assessor.Override => ({ assessed, chosen, terms: Assessor.terms(prompt), time: 0 })
+
+  test("follows a repeated override for similar prompts assessed the same way", () => {
+    const prompt = "fix the flaky auth refactor"
+    expect(Assessor.analyze(prompt).mode).toBe("adaptive")
+
+    const result = Assessor.analyze(prompt, {
+      history: [override("adaptive", "debug"), override("claw", "vibe"), override("adaptive", "debug")],
+    })
+    expect(result.mode).toBe("debug")
+    expect(result.reason).toBe("You switched from adaptive to debug in 2 of 2 similar prompts")
+  })
+
+  test("overrides on unrelated prompts with the same assessment are not followed", () => {
+    const unrelated = "add a settings page"
+    const history = [override("adaptive", "debug", unrelated), override("adaptive", "debug", unrelated)]
+    expect(Assessor.preferred("fix the flaky auth refactor", "adaptive", history)).toBeUndefined()
+    expect(Assessor.preferred("add a profile settings page", "adaptive", history)?.mode).toBe("debug")
+  })
+
+  test("terms drop short and filler words", () => {
+    expect(Assessor.terms("Fix the flaky auth refactor in src/auth.ts")).toEqual([
+      "fix",
+      "flaky",
+      "auth",
+      "refactor",
+      "src",
+    ])
+  })
+
+  test("a single override is not a habit", () => {
+    const result = Assessor.analyze("fix the flaky auth refactor", { history: [override("adaptive", "debug")] })
+    expect(result.mode).toBe("adaptive")
+  })
+
+  test("no mode is preferred without a majority", () => {
+    const history = [
+      override("adaptive", "debug"),
+      override("adaptive", "debug"),
+      override("adaptive", "vibe"),
+      override("adaptive", "claw"),
+    ]
+    expect(Assessor.preferred("fix the flaky auth refactor", "adaptive", history)).toBeUndefined()
+  })
+
+  test("overrides to agents that are not modes are ignored", () => {
+    expect(
+      Assessor.preferred("fix the flaky auth refactor", "claw", [override("claw", "build"), override("claw", "build")]),
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,186 @@
+import { test, expect } from "bun:test"
+import { StandardsLint } from "../../src/agent/lint"
+import { Standards } from "../../src/agent/standards"
+
+const config = Standards.Config.parse({ standards: { clean: true } })
+
+function lines(count: number, indent = "  ") {
+  return Array.from({ length: count }, (_, index) => `${indent}total += ${index}`).join("\n")
+}
+
+test("changed() reports the lines a change added", () => {
+  expect([...StandardsLint.changed("a\nb\nc\n", "a\nB\nc\nd\n")]).toEqual([2, 4])
+})
+
+test("flags long named functions but not anonymous callbacks", () => {
+  const after = [
+    "export function build(total: number) {",
+    lines(45),
+    "  return total",
+    "}",
+    "",
+    'describe("suite", () => {',
+    lines(45),
+    "})",
+    "",
+  ].join("\n")
+  const violations = StandardsLint.file({ file: "src/build.ts", before: "", after }, config)
+  expect(violations).toEqual([
+    {
+      file: "src/build.ts",
+      line: 1,
+      standard: "clean",
+      rule: "functions",
+      explanation: "`build` is 48 lines long; the limit is 40.",
+    },
+  ])
+})
+
+test("uses the stricter limit of an enabled pack and reports it under that pack", () => {
+  const after = ["const build = async (total: number) => {", lines(25), "}", ""].join("\n")
+  const violations = StandardsLint.file(
+    { file: "src/build.ts", before: "", after },
+    Standards.Config.parse({ standards: { clean: true, bob: true } }),
+  )
+  expect(violations).toMatchObject([{ line: 1, standard: "bob", rule: "functions" }])
+})
+
+test("counts parameters and ignores defaults with commas and arrows", () => {
+  const after = [
+    "function send(url: string, body: Record<string, string>, retry = () => 1, signal?: AbortSignal) {",
+    "  return fetch(url)",
+    "}",
+    "function call(url: string, body: Record<string, string>, retry = () => 1) {",
+    "  return fetch(url)",
+    "}",
+    "",
+  ].join("\n")
+  const violations = StandardsLint.file({ file: "src/send.ts", before: "", after }, config)
+  expect(violations).toEqual([
+    {
+      file: "src/send.ts",
+      line: 1,
+      standard: "clean",
+      rule: "functions",
+      explanation: "`send` takes 4 parameters; the limit is 3.",
+    },
+  ])
+})
+
+test("reports nesting at the deepest block, ignoring object literals and nested functions", () => {
+  const after = [
+    "function walk(items: Item[]) {",
+    "  const options = { deep: { deeper: { deepest: true } } }",
+    "  for (const item of items) {",
+    "    if (item.ok) {",
+    "      while (item.next) {",
+    "        if (item.done) {",
+    "          return item",
+    "        }",
+    "      }",
+    "    }",
+    "  }",
+    "}",
+    "",
+  ].join("\n")
+  const violations = StandardsLint.file({ file: "src/walk.ts", before: "", after }, config)
+  expect(violations).toEqual([
+    {
+      file: "src/walk.ts",
+      line: 6,
+      standard: "clean",
+      rule: "functions",
+      explanation: "`walk` nests blocks 4 deep; the limit is 3.",
+    },
+  ])
+})
+
+test("checks only functions the change touched", () => {
+  const before = ["function walk(a, b, c, d) {", "  return a", "}", "function run() {", "  return 1", "}", ""].join(
+    "\n",
+  )
+  const after = before.replace("return 1", "return 2")
+  expect(StandardsLint.file({ file: "src/walk.js", before, after }, config)).toEqual([])
+})
+
+test("flags short and banned names on changed lines, allowing loop counters", () => {
+  const after = [
+    "const d = Date.now()",
+    "for (let i = 0; i < 3; i++) {}",
+    "let data = 1",
+    "// const x = 1",
+    'const label = "const y = 2"',
+    "",
+  ].join("\n")
+  const violations = StandardsLint.file(
+    { file: "src/names.ts", before: "", after },
+    Standards.Config.parse({ standards: { clean: true }, lint: { banned: ["data"] } }),
+  )
+  expect(violations).toEqual([
+    {
+      file: "src/names.ts",
+      line: 1,
+      standard: "clean",
+      rule: "naming",
+      explanation: "`d` is too short to say what it holds.",
+    },
+    {
+      file: "src/names.ts",
+      line: 3,
+      standard: "custom",
+      rule: "banned_identifiers",
+      explanation: "`data` is a banned identifier.",
+    },
+  ])
+})
+
+test("applies per-directory limits and skips checks turned off", () => {
+  const after = ["function build() {", lines(45), "}", ""].join("\n")
+  const scoped = Standards.Config.parse({
+    standards: { clean: true },
+    overrides: [{ paths: ["test/**"], lint: { function_lines: false } }],
+  })
+  expect(StandardsLint.file({ file: "test/build.ts", before: "", after }, scoped)).toEqual([])
+  expect(StandardsLint.file({ file: "src/build.ts", before: "", after }, scoped)).toHaveLength(1)
+  const off = Standards.Config.parse({ standards: { clean: false } })
+  expect(StandardsLint.file({ file: "src/build.ts", before: "", after }, off)).toEqual([])
+})
+
+test("checks Python functions by indentation", () => {
+  const after = [
+    "def handle(self, request, user, session, retries):",
+    "    for item in request.items:",
+    "        if item.ok:",
+    "            while item.next:",
+    "                if item.done:",
+    "                    return item",
+    "",
+  ].join("\n")
+  const violations = StandardsLint.file({ file: "app/handle.py", before: "", after }, config)
+  expect(violations.map((item) => [item.line, item.explanation])).toEqual([
+    [1, "`handle` takes 4 parameters; the limit is 3."],
+    [5, "`handle` nests blocks 4 deep; the limit is 3."],
+  ])
+})
+
+test("flags files over the length limit and ignores other file types", async () => {
+  const after = lines(10, "") + "\n"
+  const strict = Standards.Config.parse({ standards: { clean: true }, lint: { file_lines: 5 } })
+  expect(
+    await StandardsLint.check(
+      [
+        { file: "src/long.ts", before: "", after, additions: 10, deletions: 0, status: "added" },
+        { file: "README.md", before: "", after, additions: 10, deletions: 0, status: "added" },
+        { file: "src/gone.ts", before: after, after: "", additions: 0, deletions: 10, status: "deleted" },
+      ],
+      strict,
+    ),
+  ).toEqual([
+    {
+      file: "src/long.ts",
+      standard: "clean",
+      rule: "structure_and_organization",
+      explanation: "File is 10 lines long; the limit is 5.",
+    },
+  ])
+})
@@ -3,6 +3,8 @@ import * as fs from "fs/promises"
 import os from "os"
 import path from "path"
 import { Standards } from "../../src/agent/standards"
+import { Config } from "../../src/config/config"
+import { Instance } from "../../src/project/instance"
 
 async function tmpdir() {
   const dirpath = path.join(os.tmpdir(), "standards-test-" + Math.random().toString(36).slice(2))
@@ -111,3 +113,177 @@ test("save() writes valid config that can be loaded back", async () => {
   expect(loaded.standards.ddd).toBe(true)
   expect(loaded.custom).toEqual(["No magic numbers"])
 })
+
+test("loads nested YAML with multi-line rules and per-directory overrides", async () => {
+  await using tmp = await tmpdir()
+  await Bun.write(
+    path.join(tmp.path, ".humancode", "standards.yml"),
+    `# Project standards
+standards: { oop: true }
+custom:
+  - |
+    Keep modules small.
+    Split them by feature.
+overrides:
+  - paths: ["src/domain/**"]
+    standards:
+      ddd: true
+    custom:
+      - Model invariants in the aggregate
+  - paths:
+      - "src/legacy/**"
+    standards:
+      clean: false
+`,
+  )
+  const config = await Standards.load(tmp.path)
+  expect(config.standards.oop).toBe(true)
+  expect(config.custom).toEqual(["Keep modules small.\nSplit them by feature.\n"])
+  expect(config.overrides).toHaveLength(2)
+
+  const domain = Standards.resolve(config, "src/domain/order/order.ts")
+  expect(domain.standards.ddd).toBe(true)
+  expect(domain.custom).toContain("Model invariants in the aggregate")
+  expect(Standards.resolve(config, "src/ui/button.ts").standards.ddd).toBe(false)
+  expect(Standards.resolve(config, "src/legacy/old.ts").standards.clean).toBe(false)
+
+  const result = await Standards.prompt(config)
+  expect(result).toContain("# Domain-Driven Design (standard: ddd)\n\nApplies only to files matching `src/domain/**`.")
+  expect(result).toContain("Does not apply to files matching `src/legacy/**`.")
+  expect(result).toContain("For files matching `src/domain/**`: Model invariants in the aggregate")
+})
+
+test("save() keeps overrides and points at the published schema", async () => {
+  await using tmp = await tmpdir()
+  const config = Standards.Config.parse({
+    standards: { ddd: false },
+    overrides: [{ paths: ["src/domain/**"], standards: { ddd: true } }],
+  })
+  await Standards.save(tmp.path, config)
+  const text = await Bun.file(path.join(tmp.path, ".humancode", "standards.yml")).text()
+  expect(text).toStartWith(`# yaml-language-server: $schema=${Standards.SCHEMA_URL}`)
+  const loaded = await Standards.load(tmp.path)
+  expect(loaded.overrides).toEqual([{ paths: ["src/domain/**"], standards: { ddd: true }, custom: [] }])
+})
+
+test("reports YAML syntax errors with their line", async () => {
+  await using tmp = await tmpdir()
+  const file = path.join(tmp.path, ".humancode", "standards.yml")
+  await Bun.write(file, "standards:\n  clean: true\n custom: [\n")
+  const error = await Standards.load(tmp.path).catch((error) => error)
+  expect(Config.JsonError.isInstance(error)).toBe(true)
+  expect(error.data.path).toBe(file)
+  expect(error.data.message).toContain("line 3")
+})
+
+test("reports schema errors with the line of the offending entry", async () => {
+  await using tmp = await tmpdir()
+  const file = path.join(tmp.path, ".humancode", "standards.yml")
+  await Bun.write(
+    file,
+    "standards:\n  clean: true\noverrides:\n  - paths: [src/**]\n    standards:\n      ddd: yes please\n",
+  )
+  const error = await Standards.load(tmp.path).catch((error) => error)
+  expect(Config.InvalidError.isInstance(error)).toBe(true)
+  expect(error.data.path).toBe(file)
+  expect(error.data.issues[0].path).toEqual(["overrides", 0, "standards", "ddd"])
+  expect(error.data.issues[0].message).toEndWith("(line 6)")
+})
+
+test("system() injects enabled standards only for gated agents", async () => {
+  await using tmp = await tmpdir()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const [review] = await Standards.system("review")
+      expect(review).toStartWith("<quality-standards>")
+      expect(review).toContain("Clean Code Foundations")
+      expect(await Standards.system("vibe")).toHaveLength(1)
+      expect(await Standards.system("claw")).toHaveLength(1)
+      expect(await Standards.system("build")).toEqual([])
+    },
+  })
+})
+
+test("prompt() labels each standard and rule with the ids verdicts use", async () => {
+  const result = await Standards.prompt(Standards.Config.parse({ standards: { solid: false } }))
+  expect(result).toContain("# Clean Code Foundations (standard: clean)")
+  expect(result).toContain("## Naming (rule: naming)")
+  expect(result).not.toContain("(standard: solid)")
+})
+
+test("pack() reads rules from sections and settings from frontmatter", () => {
+  const pack = Standards.pack({
+    id: "security",
+    source: "config",
+    location: "/config/standards/security.md",
+    text: "# Security\n\n## Secrets in Code\nNever commit keys.\n\n## Input Validation\nValidate at the edge.",
+    data: { description: "Org security rules", enabled: true },
+  })
+  expect(pack.name).toBe("Security")
+  expect(pack.description).toBe("Org security rules")
+  expect(pack.enabled).toBe(true)
+  expect(pack.rules).toEqual([
+    { id: "secrets_in_code", title: "Secrets in Code" },
+    { id: "input_validation", title: "Input Validation" },
+  ])
+})
+
+test("packs() loads project, config and skill packs", async () => {
+  await using tmp = await tmpdir()
+  await Bun.write(path.join(tmp.path, ".humancode", "standards", "go.md"), "# Go\n\n## Errors\nWrap errors.\n")
+  await Bun.write(
+    path.join(tmp.path, ".opencode", "standards", "python.md"),
+    "---\nid: python\ndescription: Org Python rules\n---\n# Python\n\n## Typing\nType public functions.\n",
+  )
+  await Bun.write(
+    path.join(tmp.path, ".opencode", "skill", "secure", "SKILL.md"),
+    "---\nname: secure\ndescription: Security review\n---\nReview for security issues.\n",
+  )
+  await Bun.write(
+    path.join(tmp.path, ".opencode", "skill", "secure", "standards", "security.md"),
+    "# Security\n\n## Secrets\nNever commit keys.\n",
+  )
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const packs = await Standards.packs()
+      const byId = Object.fromEntries(packs.map((pack) => [pack.id, pack]))
+      expect(byId.clean.source).toBe("builtin")
+      expect(byId.go).toMatchObject({ source: "project", enabled: true, rules: [{ id: "errors", title: "Errors" }] })
+      expect(byId.python).toMatchObject({ source: "config", enabled: false, description: "Org Python rules" })
+      expect(byId.security).toMatchObject({ source: "skill", enabled: false })
+
+      await Standards.save(tmp.path, Standards.Config.parse({ standards: { security: true, go: false } }))
+      const [review] = await Standards.system("review")
+      expect(review).toContain("# Security (standard: security)")
+      expect(review).toContain("## Secrets (rule: secrets)")
+      expect(review).not.toContain("(standard: go)")
+      expect(review).not.toContain("(standard: python)")
+      expect(review).toContain("(standard: clean)")
+    },
+  })
+})
+
+test("parseVerdict() reads a fenced JSON verdict", () => {
+  const text = [
+    "Reviewed the diff.",
+    "```json",
+    '{ "verdict": "fail", "violations": [{ "file": "src/a.ts", "line": 4, "standard": "clean", "rule": "naming", "explanation": "d is vague" }] }',
+    "```",
+  ].join("\n")
+  expect(Standards.parseVerdict(text)).toEqual({
+    verdict: "fail",
+    violations: [{ file: "src/a.ts", line: 4, standard: "clean", rule: "naming", explanation: "d is vague" }],
+  })
+})
+
+test("parseVerdict() reads a bare verdict surrounded by prose", () => {
+  expect(Standards.parseVerdict('All good: { "verdict": "pass" } done')).toEqual({ verdict: "pass", violations: [] })
+})
+
+test("parseVerdict() ignores replies without a valid verdict", () => {
+  expect(Standards.parseVerdict("No JSON here")).toBeUndefined()
+  expect(Standards.parseVerdict('{ "verdict": "maybe" }')).toBeUndefined()
+  expect(Standards.parseVerdict("{ not json }")).toBeUndefined()
+})
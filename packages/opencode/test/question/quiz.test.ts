@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test"
+import { Quiz } from "../../src/question/quiz"
+import { Question } from "../../src/question"
+import { Session } from "../../src/session"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+describe("Quiz.grade", () => {
+  test("exact answers are correct regardless of case and punctuation", () => {
+    expect(Quiz.grade({ expected: "3", answer: " 3 " })).toEqual({ verdict: "correct", score: 1 })
+    expect(Quiz.grade({ expected: "An empty array", answer: "an empty array." })).toEqual({
+      verdict: "correct",
+      score: 1,
+    })
+  })
+
+  test("empty answers are skipped", () => {
+    expect(Quiz.grade({ expected: "3", answer: "" }).verdict).toBe("skipped")
+    expect(Quiz.grade({ expected: "3" }).verdict).toBe("skipped")
+  })
+
+  test("picking another multiple-choice option is incorrect", () => {
+    const options = ["Before the loop", "Inside the loop", "After the loop"]
+    expect(Quiz.grade({ expected: "Inside the loop", answer: "After the loop", options })).toEqual({
+      verdict: "incorrect",
+      score: 0,
+    })
+  })
+
+  test("free-text answers are scored by keyword coverage", () => {
+    const expected = "the index starts at zero so the loop stops before length"
+    expect(Quiz.grade({ expected, answer: "index starts at zero and the loop stops before length" }).verdict).toBe(
+      "correct",
+    )
+    expect(Quiz.grade({ expected, answer: "because the index starts at zero" }).verdict).toBe("partial")
+    expect(Quiz.grade({ expected, answer: "no idea" }).verdict).toBe("incorrect")
+  })
+
+  test("explicit keywords override the expected answer's words", () => {
+    const result = Quiz.grade({
+      expected: "It returns undefined because the key is missing",
+      answer: "undefined, the map has no such key",
+      keywords: ["undefined", "key"],
+    })
+    expect(result).toEqual({ verdict: "correct", score: 1 })
+  })
+})
+
+describe("Quiz.summarize", () => {
+  const result = (input: Partial<Quiz.Info>): Quiz.Info => ({
+    id: "quz_test",
+    sessionID: "ses_test",
+    projectID: "project",
+    step: 0,
+    question: "q",
+    expected: "a",
+    verdict: "correct",
+    score: 1,
+    time: { created: 0 },
+    ...input,
+  })
+
+  test("counts verdicts and orders files weakest first", () => {
+    const summary = Quiz.summarize([
+      result({ file: "a.ts", verdict: "correct", score: 1 }),
+      result({ file: "b.ts", verdict: "incorrect", score: 0 }),
+      result({ file: "b.ts", verdict: "partial", score: 0.5 }),
+      result({ verdict: "skipped", score: 0 }),
+    ])
+    expect(summary.total).toBe(4)
+    expect(summary.correct).toBe(1)
+    expect(summary.partial).toBe(1)
+    expect(summary.incorrect).toBe(1)
+    expect(summary.skipped).toBe(1)
+    expect(summary.score).toBe(0.38)
+    expect(summary.files).toEqual([
+      { file: "b.ts", total: 2, score: 0.25 },
+      { file: "a.ts", total: 1, score: 1 },
+    ])
+  })
+
+  test("empty summary", () => {
+    expect(Quiz.summarize([])).toMatchObject({ total: 0, score: 0, files: [] })
+  })
+})
+
+describe("Quiz.ask", () => {
+  test("grades and records the user's answer per session and project", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const pending = Quiz.ask({
+          sessionID: session.id,
+          step: 2,
+          phase: "DEBUGGING",
+          question: "What is `i` after the loop?",
+          expected: "3",
+          file: "src/loop.ts",
+          line: 4,
+        })
+
+        const [request] = await Question.list()
+        expect(request.questions[0].question).toBe("What is `i` after the loop?")
+        await Question.reply({ requestID: request.id, answers: [["3"]] })
+
+        const result = await pending
+        expect(result.verdict).toBe("correct")
+        expect(result.answer).toBe("3")
+        expect(Quiz.list({ sessionID: session.id })).toEqual([result])
+        expect(Quiz.list({ projectID: Instance.project.id }).map((r) => r.id)).toContain(result.id)
+
+        await Session.remove(session.id)
+        expect(Quiz.list({ sessionID: session.id })).toEqual([])
+      },
+    })
+  })
+
+  test("records a dismissed question as skipped", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const pending = Quiz.ask({ sessionID: session.id, step: 0, question: "Why?", expected: "Because" })
+
+        const [request] = await Question.list()
+        await Question.reject(request.id)
+
+        await expect(pending).rejects.toBeInstanceOf(Question.RejectedError)
+        const [result] = Quiz.list({ sessionID: session.id })
+        expect(result.verdict).toBe("skipped")
+        expect(result.answer).toBeUndefined()
+      },
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Instance } from "../../src/project/instance"
+import { Question } from "../../src/question"
+import { Session } from "../../src/session"
+import { SessionAdaptive } from "../../src/session/adaptive"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+async function pending() {
+  for (let i = 0; i < 50; i++) {
+    const [request] = await Question.list()
+    if (request) return request
+    await Bun.sleep(10)
+  }
+  throw new Error("expected a pending question")
+}
+
+function failTests(sessionID: string, agent = SessionAdaptive.AGENT) {
+  SessionAdaptive.tool({
+    sessionID,
+    agent,
+    tool: "bash",
+    input: { command: "bun test src/foo.test.ts" },
+    metadata: { exit: 1 },
+  })
+}
+
+describe("SessionAdaptive.isTestCommand", () => {
+  test("recognizes common test runners", () => {
+    expect(SessionAdaptive.isTestCommand("bun test")).toBe(true)
+    expect(SessionAdaptive.isTestCommand("cd pkg && npm run test -- --watch=false")).toBe(true)
+    expect(SessionAdaptive.isTestCommand("pytest -x tests/")).toBe(true)
+    expect(SessionAdaptive.isTestCommand("go test ./...")).toBe(true)
+    expect(SessionAdaptive.isTestCommand("git status")).toBe(false)
+    expect(SessionAdaptive.isTestCommand("bun run build")).toBe(false)
+  })
+})
+
+describe("SessionAdaptive triggers", () => {
+  test("two failed test runs propose debug and switch on approval", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        failTests(session.id)
+        await SessionAdaptive.step({ sessionID: session.id, agent: SessionAdaptive.AGENT, files: [] })
+        expect(await Question.list()).toHaveLength(0)
+
+        failTests(session.id)
+        const step = SessionAdaptive.step({ sessionID: session.id, agent: SessionAdaptive.AGENT, files: [] })
+        const request = await pending()
+        expect(request.questions[0].question).toContain("2 test failures in a row")
+        await Question.reply({ requestID: request.id, answers: [["Switch to debug"]] })
+        await step
+
+        expect((await Session.get(session.id)).mode).toBe("debug")
+        const [system] = await SessionAdaptive.system(session.id, SessionAdaptive.AGENT)
+        expect(system).toContain("Current sub-mode: debug.")
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("aborting withdraws a pending proposal without declining it", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const abort = new AbortController()
+        failTests(session.id)
+        failTests(session.id)
+        const step = SessionAdaptive.step({
+          sessionID: session.id,
+          agent: SessionAdaptive.AGENT,
+          files: [],
+          abort: abort.signal,
+        })
+        await pending()
+        abort.abort()
+        await step
+        expect(await Question.list()).toHaveLength(0)
+        expect((await Session.get(session.id)).mode).toBeUndefined()
+
+        // The trigger was not turned down, so it fires again
+        failTests(session.id)
+        failTests(session.id)
+        const next = SessionAdaptive.step({ sessionID: session.id, agent: SessionAdaptive.AGENT, files: [] })
+        const request = await pending()
+        await Question.reject(request.id)
+        await next
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("a passing test run resets the failure count", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        failTests(session.id)
+        SessionAdaptive.tool({
+          sessionID: session.id,
+          agent: SessionAdaptive.AGENT,
+          tool: "bash",
+          input: { command: "bun test" },
+          metadata: { exit: 0 },
+        })
+        failTests(session.id)
+        await SessionAdaptive.step({ sessionID: session.id, agent: SessionAdaptive.AGENT, files: [] })
+        expect(await Question.list()).toHaveLength(0)
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("changes in a second package propose debug", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "packages/a/package.json"), "{}")
+        await Bun.write(path.join(dir, "packages/b/package.json"), "{}")
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const a = path.join(tmp.path, "packages/a/src/index.ts")
+        const b = path.join(tmp.path, "packages/b/src/index.ts")
+        await SessionAdaptive.step({ sessionID: session.id, agent: SessionAdaptive.AGENT, files: [a] })
+        expect(await Question.list()).toHaveLength(0)
+
+        const step = SessionAdaptive.step({ sessionID: session.id, agent: SessionAdaptive.AGENT, files: [a, b] })
+        const request = await pending()
+        expect(request.questions[0].question).toContain("span 2 packages")
+        await Question.reply({ requestID: request.id, answers: [["Continue as-is"]] })
+        await step
+        expect((await Session.get(session.id)).mode).toBeUndefined()
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("steady progress proposes claw once until a switch is approved", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const input = { sessionID: session.id, agent: SessionAdaptive.AGENT, files: [] }
+        await SessionAdaptive.step(input)
+        await SessionAdaptive.step(input)
+        const step = SessionAdaptive.step(input)
+        const request = await pending()
+        expect(request.questions[0].question).toContain("Switch to claw mode?")
+        await Question.reject(request.id)
+        await step
+
+        for (let i = 0; i < 3; i++) await SessionAdaptive.step(input)
+        expect(await Question.list()).toHaveLength(0)
+        expect(await SessionAdaptive.system(session.id, SessionAdaptive.AGENT)).toEqual([])
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("ignores other agents", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        failTests(session.id, "vibe")
+        failTests(session.id, "vibe")
+        await SessionAdaptive.step({ sessionID: session.id, agent: "vibe", files: [] })
+        expect(await Question.list()).toHaveLength(0)
+
+        await Session.setMode({ sessionID: session.id, mode: "debug" })
+        expect(await SessionAdaptive.system(session.id, "vibe")).toEqual([])
+        await Session.remove(session.id)
+      },
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import path from "path"
+import { describe, expect, test } from "bun:test"
+import { Assessor } from "../../src/agent/assessor"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { Session } from "../../src/session"
+import { SessionAssess } from "../../src/session/assess"
+import { SessionPrompt } from "../../src/session/prompt"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const FLAKY = "fix the flaky auth refactor"
+
+describe("SessionAssess.signals", () => {
+  test("reports existing files, missing tests and packages spanned", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "packages/a/package.json"), "{}")
+        await Bun.write(path.join(dir, "packages/a/src/x.ts"), "export const x = 1\n")
+        await Bun.write(path.join(dir, "packages/a/test/x.test.ts"), "")
+        await Bun.write(path.join(dir, "packages/b/package.json"), "{}")
+        await Bun.write(path.join(dir, "packages/b/src/y.ts"), "export const y = 1\n")
+        await Bun.write(path.join(dir, "packages/b/src/z.ts"), "export const z = 1\n")
+        await Bun.write(path.join(dir, "packages/b/src/z.spec.ts"), "")
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const signals = await SessionAssess.signals(
+          "update packages/a/src/x.ts, packages/b/src/y.ts and packages/b/src/z.ts but not missing.ts",
+        )
+        expect(signals.files).toEqual(["packages/a/src/x.ts", "packages/b/src/y.ts", "packages/b/src/z.ts"])
+        expect(signals.untested).toEqual(["packages/b/src/y.ts"])
+        expect(signals.packages).toEqual(["packages/a", "packages/b"])
+      },
+    })
+  })
+})
+
+describe("SessionAssess.assess", () => {
+  test("falls back to the heuristic when no model is configured", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await SessionAssess.assess("explain how this function works")).toEqual(
+          Assessor.analyze("explain how this function works"),
+        )
+      },
+    })
+  })
+
+  test("uses the model's classification when it answers", async () => {
+    const requests: Array<{ messages: Array<{ role: string; content: string }> }> = []
+    const classification = { mode: "debug" as const, confidence: 88, reason: "Flaky behaviour needs investigation" }
+    using server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push(await req.json())
+        return Response.json({
+          id: "chatcmpl-1",
+          object: "chat.completion",
+          created: 0,
+          model: "qwen-plus",
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: JSON.stringify(classification) },
+              finish_reason: "stop",
+            },
+          ],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        })
+      },
+    })
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        enabled_providers: ["alibaba"],
+        provider: {
+          alibaba: {
+            options: { apiKey: "test-key", baseURL: `${server.url.origin}/v1` },
+          },
+        },
+        assessor: { llm: true, model: "alibaba/qwen-plus" },
+      },
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "src/auth.ts"), "export const auth = 1\n")
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const result = await SessionAssess.assess("fix the flaky refactor in src/auth.ts")
+        expect(result).toEqual({
+          ...classification,
+          complexity: Assessor.analyze("fix the flaky refactor in src/auth.ts", {
+            signals: { files: ["src/auth.ts"], untested: ["src/auth.ts"], packages: ["."] },
+          }).complexity,
+        })
+        expect(requests).toHaveLength(1)
+        const user = requests[0].messages.find((message) => message.role === "user")
+        expect(user?.content).toContain("Files without tests: src/auth.ts")
+      },
+    })
+  })
+
+  test("falls back to the heuristic when the model fails", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      config: { assessor: { llm: true, model: "missing/model" } },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const result = await SessionAssess.assess("explain how this function works")
+        expect(result.mode).toBe("pair")
+        expect(result.reason).toBe("Learning intent detected in prompt")
+      },
+    })
+  })
+
+  test("registered strategies run first and fall through when they pass or throw", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const fixed: Assessor.Result = { mode: "debug", confidence: 80, reason: "fixture", complexity: 1 }
+        const unregister = [
+          SessionAssess.register({ name: "fixed", assess: async () => fixed }),
+          SessionAssess.register({ name: "pass", assess: async () => undefined }),
+          SessionAssess.register({
+            name: "broken",
+            assess: async () => {
+              throw new Error("offline")
+            },
+          }),
+        ]
+        expect(await SessionAssess.assess(FLAKY)).toEqual(fixed)
+
+        for (const fn of unregister) fn()
+        expect((await SessionAssess.assess(FLAKY)).mode).toBe("adaptive")
+      },
+    })
+  })
+
+  test("learns from overrides marked on top-level prompts", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        for (const text of [FLAKY, "fix the flaky payment refactor"]) {
+          await SessionPrompt.prompt({
+            sessionID: session.id,
+            agent: "debug",
+            override: true,
+            noReply: true,
+            parts: [{ type: "text", text }],
+          })
+        }
+        // A pinned agent without the override mark is not learned from
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          agent: "claw",
+          noReply: true,
+          parts: [{ type: "text", text: FLAKY }],
+        })
+        // Nor is picking the mode that was assessed anyway
+        await SessionPrompt.prompt({
+          sessionID: session.id,
+          agent: "pair",
+          override: true,
+          noReply: true,
+          parts: [{ type: "text", text: "explain the auth flow" }],
+        })
+
+        expect(SessionAssess.history().map((item) => [item.assessed, item.chosen])).toEqual([
+          ["adaptive", "debug"],
+          ["adaptive", "debug"],
+        ])
+        const result = await SessionPrompt.assess({ sessionID: session.id, text: "fix the flaky cart refactor" })
+        expect(result.mode).toBe("debug")
+        expect(result.reason).toContain("You switched from adaptive to debug")
+        // Prompts the heuristic buckets the same way but that share few terms are unaffected
+        expect((await SessionPrompt.assess({ sessionID: session.id, text: "rewrite the billing module" })).mode).toBe(
+          "adaptive",
+        )
+
+        const child = await Session.create({ parentID: session.id })
+        await SessionPrompt.prompt({
+          sessionID: child.id,
+          agent: "debug",
+          override: true,
+          noReply: true,
+          parts: [{ type: "text", text: FLAKY }],
+        })
+        expect(SessionAssess.history()).toHaveLength(2)
+
+        await Session.remove(session.id)
+      },
+    })
+  }, 30000) // First prompt in the process loads providers
+})
@@ -1,63 +1,88 @@
 import { describe, expect, test } from "bun:test"
 import { DebugPhase } from "../../src/session/debug-phase"
+import { Config } from "../../src/config/config"
+import { Instance } from "../../src/project/instance"
+import { Session } from "../../src/session"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
 
-describe("DebugPhase.create", () => {
-  test("returns PLANNING phase, step 0, null totalSteps, false autoConfirm", () => {
-    const state = DebugPhase.create("test-session-1")
-    expect(state.sessionID).toBe("test-session-1")
-    expect(state.currentPhase).toBe("PLANNING")
-    expect(state.currentStep).toBe(0)
-    expect(state.totalSteps).toBeNull()
-    expect(state.autoConfirm).toBe(false)
-    expect(state.stepDescriptions).toEqual([])
+Log.init({ print: false })
+
+// Phase state references its session, so each test runs against a real one
+async function withSession(fn: (sessionID: string) => void) {
+  await using tmp = await tmpdir({ git: true })
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const session = await Session.create({})
+      fn(session.id)
+      await Session.remove(session.id)
+    },
   })
+}
+
+describe("DebugPhase.create", () => {
+  test("returns PLANNING phase, step 0, null totalSteps, false autoConfirm", () =>
+    withSession((sessionID) => {
+      const state = DebugPhase.create(sessionID)
+      expect(state.sessionID).toBe(sessionID)
+      expect(state.currentPhase).toBe("PLANNING")
+      expect(state.currentStep).toBe(0)
+      expect(state.totalSteps).toBeNull()
+      expect(state.autoConfirm).toBe(false)
+      expect(state.stepDescriptions).toEqual([])
+    }))
 })
 
 describe("DebugPhase.transition", () => {
-  test("valid transitions: PLANNING->CODING, CODING->BREAKPOINTING", () => {
-    const state = DebugPhase.create("test-transition-1")
-    const afterCoding = DebugPhase.transition(state, "CODING")
-    expect(afterCoding.currentPhase).toBe("CODING")
+  test("valid transitions: PLANNING->CODING, CODING->BREAKPOINTING", () =>
+    withSession((sessionID) => {
+      const state = DebugPhase.create(sessionID)
+      const afterCoding = DebugPhase.transition(state, "CODING")
+      expect(afterCoding.currentPhase).toBe("CODING")
 
-    const afterBreakpointing = DebugPhase.transition(afterCoding, "BREAKPOINTING")
-    expect(afterBreakpointing.currentPhase).toBe("BREAKPOINTING")
-  })
+      const afterBreakpointing = DebugPhase.transition(afterCoding, "BREAKPOINTING")
+      expect(afterBreakpointing.currentPhase).toBe("BREAKPOINTING")
+    }))
 
-  test("full cycle back to PLANNING", () => {
-    let state = DebugPhase.create("test-cycle-1")
-    state = DebugPhase.transition(state, "CODING")
-    state = DebugPhase.transition(state, "BREAKPOINTING")
-    state = DebugPhase.transition(state, "DEBUGGING")
-    state = DebugPhase.transition(state, "EXPLAINING")
-    state = DebugPhase.transition(state, "CONFIRMING")
-    state = DebugPhase.transition(state, "PLANNING")
-    expect(state.currentPhase).toBe("PLANNING")
-  })
+  test("full cycle back to PLANNING", () =>
+    withSession((sessionID) => {
+      let state = DebugPhase.create(sessionID)
+      state = DebugPhase.transition(state, "CODING")
+      state = DebugPhase.transition(state, "BREAKPOINTING")
+      state = DebugPhase.transition(state, "DEBUGGING")
+      state = DebugPhase.transition(state, "EXPLAINING")
+      state = DebugPhase.transition(state, "CONFIRMING")
+      state = DebugPhase.transition(state, "PLANNING")
+      expect(state.currentPhase).toBe("PLANNING")
+    }))
 
-  test("step increments on CONFIRMING->PLANNING", () => {
-    let state = DebugPhase.create("test-step-inc")
-    expect(state.currentStep).toBe(0)
+  test("step increments on CONFIRMING->PLANNING", () =>
+    withSession((sessionID) => {
+      let state = DebugPhase.create(sessionID)
+      expect(state.currentStep).toBe(0)
 
-    state = DebugPhase.transition(state, "CODING")
-    state = DebugPhase.transition(state, "BREAKPOINTING")
-    state = DebugPhase.transition(state, "DEBUGGING")
-    state = DebugPhase.transition(state, "EXPLAINING")
-    state = DebugPhase.transition(state, "CONFIRMING")
-    expect(state.currentStep).toBe(0)
+      state = DebugPhase.transition(state, "CODING")
+      state = DebugPhase.transition(state, "BREAKPOINTING")
+      state = DebugPhase.transition(state, "DEBUGGING")
+      state = DebugPhase.transition(state, "EXPLAINING")
+      state = DebugPhase.transition(state, "CONFIRMING")
+      expect(state.currentStep).toBe(0)
 
-    state = DebugPhase.transition(state, "PLANNING")
-    expect(state.currentStep).toBe(1)
-  })
+      state = DebugPhase.transition(state, "PLANNING")
+      expect(state.currentStep).toBe(1)
+    }))
 
-  test("invalid transitions throw with descriptive message", () => {
-    const state = DebugPhase.create("test-invalid")
-    expect(() => DebugPhase.transition(state, "DEBUGGING")).toThrow(
-      /cannot transition from PLANNING to DEBUGGING/i,
-    )
-    expect(() => DebugPhase.transition(state, "EXPLAINING")).toThrow(
-      /cannot transition from PLANNING to EXPLAINING/i,
-    )
-  })
+  test("invalid transitions throw with descriptive message", () =>
+    withSession((sessionID) => {
+      const state = DebugPhase.create(sessionID)
+      expect(() => DebugPhase.transition(state, "DEBUGGING")).toThrow(
+        /cannot transition from PLANNING to DEBUGGING/i,
+      )
+      expect(() => DebugPhase.transition(state, "EXPLAINING")).toThrow(
+        /cannot transition from PLANNING to EXPLAINING/i,
+      )
+    }))
 })
 
 describe("DebugPhase.toolsForPhase", () => {
@@ -82,12 +107,16 @@ describe("DebugPhase.toolsForPhase", () => {
     expect(DebugPhase.toolsForPhase("BREAKPOINTING")).toEqual([
       "debugger_set_breakpoints",
       "debugger_remove_breakpoints",
+      "debugger_set_exception_breakpoints",
+      "debugger_set_function_breakpoints",
+      "debugger_remove_function_breakpoints",
       "debugger_list_breakpoints",
       "read",
       "transitionPhase",
     ])
     expect(DebugPhase.toolsForPhase("DEBUGGING")).toEqual([
       "debugger_start_debug_session",
+      "debugger_attach_debug_session",
       "debugger_continue_execution",
       "debugger_step_over",
       "debugger_step_into",
@@ -95,10 +124,19 @@ describe("DebugPhase.toolsForPhase", () => {
       "debugger_get_variables",
       "debugger_get_call_stack",
       "debugger_evaluate_expression",
+      "debugger_get_program_output",
+      "debugger_set_data_breakpoints",
+      "debugger_remove_data_breakpoints",
       "debugger_list_breakpoints",
+      "debugger_list_debug_sessions",
+      "quiz",
+      "transitionPhase",
+    ])
+    expect(DebugPhase.toolsForPhase("EXPLAINING")).toEqual([
+      "debugger_get_trace",
+      "debugger_replay_stop",
       "transitionPhase",
     ])
-    expect(DebugPhase.toolsForPhase("EXPLAINING")).toEqual(["transitionPhase"])
     expect(DebugPhase.toolsForPhase("CONFIRMING")).toEqual([
       "debugger_stop_debug_session",
       "transitionPhase",
@@ -128,38 +166,191 @@ describe("DebugPhase.isToolAllowed", () => {
 })
 
 describe("DebugPhase storage functions", () => {
-  test("get returns undefined for unknown session", () => {
-    expect(DebugPhase.get("nonexistent-session")).toBeUndefined()
+  test("get returns undefined for unknown session", () =>
+    withSession(() => {
+      expect(DebugPhase.get("nonexistent-session")).toBeUndefined()
+    }))
+
+  test("getOrCreate returns existing or creates new", () =>
+    withSession((sessionID) => {
+      DebugPhase.clear(sessionID)
+      const state1 = DebugPhase.getOrCreate(sessionID)
+      expect(state1.currentPhase).toBe("PLANNING")
+
+      const transitioned = DebugPhase.transition(state1, "CODING")
+      const state2 = DebugPhase.getOrCreate(sessionID)
+      expect(state2.currentPhase).toBe("CODING")
+    }))
+
+  test("clear removes state", () =>
+    withSession((sessionID) => {
+      DebugPhase.create(sessionID)
+      expect(DebugPhase.get(sessionID)).toBeDefined()
+      DebugPhase.clear(sessionID)
+      expect(DebugPhase.get(sessionID)).toBeUndefined()
+    }))
+
+  test("setAutoConfirm toggles auto-confirm", () =>
+    withSession((sessionID) => {
+      DebugPhase.create(sessionID)
+      expect(DebugPhase.get(sessionID)!.autoConfirm).toBe(false)
+
+      DebugPhase.setAutoConfirm(sessionID, true)
+      expect(DebugPhase.get(sessionID)!.autoConfirm).toBe(true)
+
+      DebugPhase.setAutoConfirm(sessionID, false)
+      expect(DebugPhase.get(sessionID)!.autoConfirm).toBe(false)
+    }))
+})
+
+describe("DebugPhase persistence", () => {
+  test("get reads the persisted phase and step back once the cache is gone", async () => {
+    await using tmp = await tmpdir({ git: true })
+    const sessionID = await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        let state = DebugPhase.create(session.id)
+        for (const phase of ["CODING", "BREAKPOINTING", "DEBUGGING", "EXPLAINING", "CONFIRMING", "PLANNING", "CODING"]) {
+          state = DebugPhase.transition(state, phase)
+        }
+        DebugPhase.setAutoConfirm(session.id, true)
+        // Disposing the instance drops the in-memory cache, like a restart
+        await Instance.dispose()
+        return session.id
+      },
+    })
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(DebugPhase.get(sessionID)).toEqual({
+          sessionID,
+          currentPhase: "CODING",
+          currentStep: 1,
+          totalSteps: null,
+          stepDescriptions: [],
+          autoConfirm: true,
+        })
+        await Session.remove(sessionID)
+        expect(DebugPhase.get(sessionID)).toBeUndefined()
+      },
+    })
+  })
+})
+
+describe("DebugPhase workflows", () => {
+  const custom = DebugPhase.workflow({
+    phases: {
+      PLANNING: { tools: ["read", "transitionPhase"], next: ["CODING"] },
+      CODING: { tools: ["edit", "bash", "transitionPhase"], next: ["TESTING", "DEBUGGING"] },
+      TESTING: { tools: ["bash", "transitionPhase"], next: ["CODING", "PLANNING"] },
+      DEBUGGING: { tools: ["debugger_step_over", "transitionPhase"], next: ["CODING"] },
+    },
+  })
+
+  test("default workflow is used when no config is given", () => {
+    expect(DebugPhase.workflow()).toBe(DebugPhase.DEFAULT_WORKFLOW)
+    expect(DebugPhase.DEFAULT_WORKFLOW.initial).toBe("PLANNING")
+    expect(Object.keys(DebugPhase.DEFAULT_WORKFLOW.phases)).toEqual([...DebugPhase.PHASES])
   })
 
-  test("getOrCreate returns existing or creates new", () => {
-    const id = "test-get-or-create"
-    DebugPhase.clear(id)
-    const state1 = DebugPhase.getOrCreate(id)
-    expect(state1.currentPhase).toBe("PLANNING")
+  test("initial phase defaults to the first phase listed", () =>
+    withSession((sessionID) => {
+      expect(custom.initial).toBe("PLANNING")
+      const state = DebugPhase.create(sessionID, DebugPhase.workflow({ ...custom, initial: "CODING" }))
+      expect(state.currentPhase).toBe("CODING")
+    }))
 
-    const transitioned = DebugPhase.transition(state1, "CODING")
-    const state2 = DebugPhase.getOrCreate(id)
-    expect(state2.currentPhase).toBe("CODING")
+  test("allows custom phases, skipped phases and back edges", () =>
+    withSession((sessionID) => {
+      let state = DebugPhase.create(sessionID, custom)
+      state = DebugPhase.transition(state, "CODING", custom)
+      state = DebugPhase.transition(state, "DEBUGGING", custom)
+      state = DebugPhase.transition(state, "CODING", custom)
+      state = DebugPhase.transition(state, "TESTING", custom)
+      expect(state.currentPhase).toBe("TESTING")
+      expect(() => DebugPhase.transition(state, "DEBUGGING", custom)).toThrow(/cannot transition from TESTING/i)
+    }))
+
+  test("step increments on returning to the initial phase", () =>
+    withSession((sessionID) => {
+      let state = DebugPhase.create(sessionID, custom)
+      state = DebugPhase.transition(state, "CODING", custom)
+      state = DebugPhase.transition(state, "TESTING", custom)
+      state = DebugPhase.transition(state, "PLANNING", custom)
+      expect(state.currentStep).toBe(1)
+    }))
+
+  test("a configured workflow is described in the system prompt", () =>
+    withSession((sessionID) => {
+      const workflow = {
+        phases: {
+          PLANNING: { description: "Agree on a plan", tools: ["read", "transitionPhase"], next: ["CODING"] },
+          CODING: { tools: ["edit", "transitionPhase"], next: ["PLANNING"] },
+        },
+      }
+      expect(DebugPhase.system(sessionID, { name: "debug" })).toEqual([])
+      expect(DebugPhase.system(sessionID, { name: "build", workflow })).toEqual([])
+
+      const [system] = DebugPhase.system(sessionID, { name: "debug", workflow })
+      expect(system).toContain("Current phase: PLANNING (step 0).")
+      expect(system).toContain("## PLANNING\nAgree on a plan\nTools: read, transitionPhase\nNext phases: CODING")
+      expect(system).toContain("## CODING\nTools: edit, transitionPhase\nNext phases: PLANNING")
+    }))
+
+  test("tool allowlists come from the workflow", () => {
+    expect(DebugPhase.toolsForPhase("TESTING", custom)).toEqual(["bash", "transitionPhase"])
+    expect(DebugPhase.isToolAllowed("CODING", "bash", custom)).toBe(true)
+    expect(DebugPhase.isToolAllowed("PLANNING", "grep", custom)).toBe(false)
+    expect(DebugPhase.transitionsFrom("CODING", custom)).toEqual(["TESTING", "DEBUGGING"])
   })
 
-  test("clear removes state", () => {
-    const id = "test-clear"
-    DebugPhase.create(id)
-    expect(DebugPhase.get(id)).toBeDefined()
-    DebugPhase.clear(id)
-    expect(DebugPhase.get(id)).toBeUndefined()
+  test("phase missing from the workflow can only return to the initial phase", () =>
+    withSession((sessionID) => {
+      const state = DebugPhase.transition(DebugPhase.create(sessionID), "CODING")
+      const stale = { ...state, currentPhase: "EXPLAINING" }
+      expect(DebugPhase.toolsForPhase("EXPLAINING", custom)).toEqual(["transitionPhase"])
+      expect(DebugPhase.transition(stale, "PLANNING", custom).currentPhase).toBe("PLANNING")
+    }))
+})
+
+describe("Config.DebugWorkflow", () => {
+  test("accepts a valid workflow", () => {
+    const result = Config.DebugWorkflow.safeParse({
+      initial: "CODING",
+      phases: {
+        CODING: { tools: ["edit", "transitionPhase"], next: ["TESTING"] },
+        TESTING: { tools: ["bash", "transitionPhase"], next: ["CODING"] },
+      },
+    })
+    expect(result.success).toBe(true)
   })
 
-  test("setAutoConfirm toggles auto-confirm", () => {
-    const id = "test-auto-confirm"
-    DebugPhase.create(id)
-    expect(DebugPhase.get(id)!.autoConfirm).toBe(false)
+  test("rejects transitions to undefined phases", () => {
+    const result = Config.DebugWorkflow.safeParse({
+      phases: { CODING: { tools: ["transitionPhase"], next: ["REVIEW"] } },
+    })
+    expect(result.success).toBe(false)
+    expect(result.error!.issues[0].message).toContain('undefined phase "REVIEW"')
+  })
 
-    DebugPhase.setAutoConfirm(id, true)
-    expect(DebugPhase.get(id)!.autoConfirm).toBe(true)
+  test("rejects an undefined initial phase", () => {
+    const result = Config.DebugWorkflow.safeParse({
+      initial: "PLANNING",
+      phases: { CODING: { tools: [], next: [] } },
+    })
+    expect(result.success).toBe(false)
+  })
 
-    DebugPhase.setAutoConfirm(id, false)
-    expect(DebugPhase.get(id)!.autoConfirm).toBe(false)
+  test("rejects phases with transitions but no transitionPhase tool", () => {
+    const result = Config.DebugWorkflow.safeParse({
+      phases: {
+        CODING: { tools: ["edit"], next: ["TESTING"] },
+        TESTING: { tools: [], next: [] },
+      },
+    })
+    expect(result.success).toBe(false)
+    expect(result.error!.issues[0].path).toEqual(["phases", "CODING", "tools"])
   })
 })
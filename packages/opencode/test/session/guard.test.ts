@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test"
+import { Agent } from "../../src/agent/agent"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { Session } from "../../src/session"
+import { SessionGuard } from "../../src/session/guard"
+import { SessionPrompt } from "../../src/session/prompt"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const IMPLEMENTATION = [
+  "Here is the whole thing:",
+  "",
+  "```ts",
+  "export function parse(input: string) {",
+  "  const parts = input.split(',')",
+  "  const result = []",
+  "  for (const part of parts) {",
+  "    result.push(part.trim())",
+  "  }",
+  "  return result",
+  "}",
+  "```",
+  "",
+  "Then call it from the handler.",
+].join("\n")
+
+describe("SessionGuard.blocks", () => {
+  test("finds fenced blocks over the limit and skips short or output blocks", () => {
+    const text = [
+      "```ts",
+      "const a = 1",
+      "```",
+      "",
+      "```text",
+      "1\n2\n3\n4\n5\n6\n7",
+      "```",
+      "",
+      "~~~py",
+      "def f():",
+      "    a = 1",
+      "    b = 2",
+      "    return a + b",
+      "~~~",
+    ].join("\n")
+    expect(SessionGuard.blocks(text, 3).map((block) => block.language)).toEqual(["py"])
+    expect(SessionGuard.blocks(text, 4)).toEqual([])
+  })
+
+  test("treats an unclosed fence as running to the end", () => {
+    const [block] = SessionGuard.blocks("Try this:\n```go\na\nb\nc\n", 2)
+    expect(block.language).toBe("go")
+    expect(block.end).toBe("Try this:\n```go\na\nb\nc\n".length)
+  })
+})
+
+describe("SessionGuard.check", () => {
+  test("redacts long blocks into a hint and counts the withheld lines", () => {
+    const result = SessionGuard.check({ noCode: { action: "redact", lines: 5 } }, IMPLEMENTATION)
+    expect(result?.lines).toBe(8)
+    expect(result?.text).toContain("Here is the whole thing:")
+    expect(result?.text).toContain("Then call it from the handler.")
+    expect(result?.text).toContain(
+      "_[8-line ts code block withheld: this mode leaves the writing to you. Start from `export function parse(input: string) {`.]_",
+    )
+    expect(result?.text).not.toContain("result.push")
+  })
+
+  test("leaves agents without a guard alone", () => {
+    expect(SessionGuard.check({}, IMPLEMENTATION)).toBeUndefined()
+    expect(SessionGuard.check({ noCode: { action: "redact", lines: 10 } }, IMPLEMENTATION)).toBeUndefined()
+  })
+})
+
+describe("no-code agents", () => {
+  test("pair is guarded by default and config can change or drop the guard", async () => {
+    await using tmp = await tmpdir({
+      config: {
+        agent: {
+          pair: { no_code: { action: "reprompt" } },
+          build: { no_code: true },
+          plan: { no_code: false },
+        },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect((await Agent.get("pair")).noCode).toEqual({ action: "reprompt", lines: 5 })
+        expect((await Agent.get("build")).noCode).toEqual({ action: "redact", lines: 5 })
+        expect((await Agent.get("plan")).noCode).toBeUndefined()
+      },
+    })
+  })
+
+  test("re-prompts once with a correction and records the hit on the session", async () => {
+    const requests: Array<{ messages: Array<{ role: string; content: unknown }> }> = []
+    const chunk = (delta: Record<string, unknown>, finish: string | null) =>
+      `data: ${JSON.stringify({
+        id: "chatcmpl-1",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "qwen-plus",
+        choices: [{ index: 0, delta, finish_reason: finish }],
+        ...(finish ? { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } } : {}),
+      })}\n\n`
+    using server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json()
+        const text = JSON.stringify(body.messages)
+        // Title generation and the like go through the same provider
+        const pair = text.includes("pair programming partner")
+        if (pair) requests.push(body)
+        const reply = !pair ? "Guard test" : text.includes("so it was withheld") ? "Split on commas." : IMPLEMENTATION
+        return new Response(
+          chunk({ role: "assistant", content: reply }, null) + chunk({}, "stop") + "data: [DONE]\n\n",
+          { headers: { "Content-Type": "text/event-stream" } },
+        )
+      },
+    })
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        enabled_providers: ["alibaba"],
+        provider: {
+          alibaba: {
+            options: { apiKey: "test-key", baseURL: `${server.url.origin}/v1` },
+          },
+        },
+        agent: { pair: { no_code: { action: "reprompt" } } },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const result = await SessionPrompt.prompt({
+          sessionID: session.id,
+          agent: "pair",
+          model: { providerID: "alibaba", modelID: "qwen-plus" },
+          parts: [{ type: "text", text: "parse a comma separated list" }],
+        })
+        expect(requests).toHaveLength(2)
+        expect(JSON.stringify(requests[1].messages)).toContain("code block withheld")
+        expect(JSON.stringify(requests[1].messages)).not.toContain("result.push")
+        expect(result.parts.findLast((part) => part.type === "text")).toMatchObject({ text: "Split on commas." })
+        expect((await Session.get(session.id)).guard).toEqual({ hits: 1, reprompts: 1, lines: 8 })
+      },
+    })
+  }, 30_000)
+})
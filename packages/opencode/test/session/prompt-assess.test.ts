@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test"
+import { Agent } from "../../src/agent/agent"
+import { Instance } from "../../src/project/instance"
+import { Log } from "../../src/util/log"
+import { Session } from "../../src/session"
+import { SessionPrompt } from "../../src/session/prompt"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+describe("session.prompt assessment", () => {
+  test("selects and records the assessed mode when no agent is pinned", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const message = await SessionPrompt.prompt({
+          sessionID: session.id,
+          noReply: true,
+          parts: [{ type: "text", text: "can you explain how this function works?" }],
+        })
+        if (message.info.role !== "user") throw new Error("expected user message")
+        expect(message.info.agent).toBe("pair")
+        expect(message.info.assessment).toEqual(
+          await SessionPrompt.assess({ sessionID: session.id, text: "can you explain how this function works?" }),
+        )
+        expect(message.info.assessment?.reason).toBe("Learning intent detected in prompt")
+
+        await Session.remove(session.id)
+      },
+    })
+  }, 30000) // First prompt in the process loads providers
+
+  test("a pinned agent skips assessment", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const message = await SessionPrompt.prompt({
+          sessionID: session.id,
+          agent: "build",
+          noReply: true,
+          parts: [{ type: "text", text: "can you explain how this function works?" }],
+        })
+        if (message.info.role !== "user") throw new Error("expected user message")
+        expect(message.info.agent).toBe("build")
+        expect(message.info.assessment).toBeUndefined()
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("records an assessment the client sends with its agent", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const assessment = { mode: "claw" as const, confidence: 90, reason: "Assessed by the client", complexity: 2 }
+        const message = await SessionPrompt.prompt({
+          sessionID: session.id,
+          agent: "claw",
+          assessment,
+          noReply: true,
+          parts: [{ type: "text", text: "can you explain how this function works?" }],
+        })
+        if (message.info.role !== "user") throw new Error("expected user message")
+        expect(message.info.agent).toBe("claw")
+        expect(message.info.assessment).toEqual(assessment)
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("a configured default agent is pinned", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        default_agent: "claw",
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const message = await SessionPrompt.prompt({
+          sessionID: session.id,
+          noReply: true,
+          parts: [{ type: "text", text: "can you explain how this function works?" }],
+        })
+        if (message.info.role !== "user") throw new Error("expected user message")
+        expect(message.info.agent).toBe("claw")
+        expect(message.info.assessment).toBeUndefined()
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("falls back to the default agent when the assessed one is disabled", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      config: {
+        agent: {
+          pair: { disable: true },
+        },
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const message = await SessionPrompt.prompt({
+          sessionID: session.id,
+          noReply: true,
+          parts: [{ type: "text", text: "can you explain how this function works?" }],
+        })
+        if (message.info.role !== "user") throw new Error("expected user message")
+        expect(message.info.agent).toBe(await Agent.defaultAgent())
+        expect(message.info.assessment).toBeUndefined()
+
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("assess requires an existing session", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await expect(SessionPrompt.assess({ sessionID: "ses_missing", text: "fix the typo" })).rejects.toThrow()
+      },
+    })
+  })
+})
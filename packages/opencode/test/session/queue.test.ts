@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test"
+import { Bus } from "../../src/bus"
+import { Instance } from "../../src/project/instance"
+import { Session } from "../../src/session"
+import { SessionQueue } from "../../src/session/queue"
+import { QueueTaskTable } from "../../src/session/session.sql"
+import { Database, eq } from "../../src/storage/db"
+import { Log } from "../../src/util/log"
+import { tmpdir } from "../fixture/fixture"
+
+Log.init({ print: false })
+
+const tasks = [
+  { title: "Add parser", prompt: "Add a parser for the config file" },
+  { title: "Add tests", prompt: "Add tests for the parser", agent: "explore" },
+  { title: "Update docs", prompt: "Document the config file format" },
+]
+
+describe("SessionQueue", () => {
+  test("adds tasks in order with a default agent", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const updates: SessionQueue.Info[][] = []
+        const unsub = Bus.subscribe(SessionQueue.Event.Updated, (event) => {
+          if (event.properties.sessionID === session.id) updates.push(event.properties.tasks)
+        })
+
+        const added = await SessionQueue.add({ sessionID: session.id, tasks })
+        expect(added.map((task) => [task.title, task.agent, task.status])).toEqual([
+          ["Add parser", "general", "pending"],
+          ["Add tests", "explore", "pending"],
+          ["Update docs", "general", "pending"],
+        ])
+        await SessionQueue.add({ sessionID: session.id, tasks: [{ title: "Clean up", prompt: "Remove dead code" }] })
+        expect(SessionQueue.list(session.id).map((task) => task.title)).toEqual([
+          "Add parser",
+          "Add tests",
+          "Update docs",
+          "Clean up",
+        ])
+        await Bun.sleep(10)
+        expect(updates.at(-1)?.length).toBe(4)
+
+        unsub()
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("reorders listed tasks to the front", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const [parser, tests, docs] = await SessionQueue.add({ sessionID: session.id, tasks })
+        const result = await SessionQueue.reorder({ sessionID: session.id, order: [docs.id, parser.id] })
+        expect(result.map((task) => task.id)).toEqual([docs.id, parser.id, tests.id])
+        expect(result.map((task) => task.position)).toEqual([0, 1, 2])
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("cancels pending tasks and re-queues them at the end", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const [parser, tests] = await SessionQueue.add({ sessionID: session.id, tasks })
+
+        const cancelled = await SessionQueue.cancel({ sessionID: session.id, taskID: parser.id })
+        expect(cancelled.status).toBe("cancelled")
+        expect(cancelled.time.completed).toBeDefined()
+
+        // Re-queuing a pending task leaves it where it is
+        expect((await SessionQueue.requeue({ sessionID: session.id, taskID: tests.id })).position).toBe(tests.position)
+
+        const requeued = await SessionQueue.requeue({ sessionID: session.id, taskID: parser.id })
+        expect(requeued.status).toBe("pending")
+        expect(requeued.time.completed).toBeUndefined()
+        expect(SessionQueue.list(session.id).at(-1)?.id).toBe(parser.id)
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("a task from another session is not found", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const first = await Session.create({})
+        const second = await Session.create({})
+        const [task] = await SessionQueue.add({ sessionID: first.id, tasks: tasks.slice(0, 1) })
+        expect(() => SessionQueue.get({ sessionID: second.id, taskID: task.id })).toThrow()
+        expect(await SessionQueue.diff({ sessionID: first.id, taskID: task.id })).toEqual([])
+        await Session.remove(first.id)
+        await Session.remove(second.id)
+      },
+    })
+  })
+
+  test("an aborted run marks tasks interrupted by an earlier process as failed", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        const [stale, next] = await SessionQueue.add({ sessionID: session.id, tasks })
+        Database.use((db) =>
+          db.update(QueueTaskTable).set({ status: "running" }).where(eq(QueueTaskTable.id, stale.id)).run(),
+        )
+
+        const abort = new AbortController()
+        abort.abort()
+        const result = await SessionQueue.run({ sessionID: session.id, abort: abort.signal })
+        expect(result.find((task) => task.id === stale.id)).toMatchObject({ status: "failed", error: "Interrupted" })
+        expect(result.find((task) => task.id === next.id)?.status).toBe("pending")
+        expect(SessionQueue.running(session.id)).toBe(false)
+        await Session.remove(session.id)
+      },
+    })
+  })
+
+  test("summarizes files, review issues and failures", () => {
+    const base = {
+      sessionID: "ses_test",
+      prompt: "p",
+      agent: "general",
+      position: 0,
+      time: { created: 0, updated: 0 },
+    }
+    const text = SessionQueue.summary([
+      {
+        ...base,
+        id: "tsk_1",
+        title: "Add parser",
+        status: "completed",
+        childID: "ses_child",
+        files: [{ file: "src/parser.ts", additions: 10, deletions: 2 }],
+        review: {
+          verdict: "fail",
+          violations: [
+            { file: "src/parser.ts", line: 4, standard: "clean", rule: "naming", explanation: "Unclear name" },
+          ],
+        },
+      },
+      { ...base, id: "tsk_2", title: "Add tests", status: "failed", files: [], error: "Model error" },
+    ])
+    expect(text).toContain("## Add parser (completed)")
+    expect(text).toContain("- src/parser.ts (+10 -2)")
+    expect(text).toContain("- src/parser.ts:4 Unclear name")
+    expect(text).toContain("## Add tests (failed)")
+    expect(text).toContain("Error: Model error")
+  })
+})
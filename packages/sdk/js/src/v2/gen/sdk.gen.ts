@@ -8,6 +8,8 @@ import type {
   AppLogErrors,
   AppLogResponses,
   AppSkillsResponses,
+  AppStandardsResponses,
+  Assessment,
   Auth as Auth3,
   AuthRemoveErrors,
   AuthRemoveResponses,
@@ -93,18 +95,24 @@ import type {
   PtyUpdateResponses,
   QuestionAnswer,
   QuestionListResponses,
+  QuestionQuizErrors,
+  QuestionQuizResponses,
   QuestionRejectErrors,
   QuestionRejectResponses,
   QuestionReplyErrors,
   QuestionReplyResponses,
   SessionAbortErrors,
   SessionAbortResponses,
+  SessionAssessErrors,
+  SessionAssessResponses,
   SessionChildrenErrors,
   SessionChildrenResponses,
   SessionCommandErrors,
   SessionCommandResponses,
   SessionCreateErrors,
   SessionCreateResponses,
+  SessionDebugPhaseErrors,
+  SessionDebugPhaseResponses,
   SessionDeleteErrors,
   SessionDeleteResponses,
   SessionDiffResponses,
@@ -122,6 +130,20 @@ import type {
   SessionPromptAsyncResponses,
   SessionPromptErrors,
   SessionPromptResponses,
+  SessionQueueAddErrors,
+  SessionQueueAddResponses,
+  SessionQueueCancelErrors,
+  SessionQueueCancelResponses,
+  SessionQueueDiffErrors,
+  SessionQueueDiffResponses,
+  SessionQueueErrors,
+  SessionQueueReorderErrors,
+  SessionQueueReorderResponses,
+  SessionQueueRequeueErrors,
+  SessionQueueRequeueResponses,
+  SessionQueueResponses,
+  SessionQueueRunErrors,
+  SessionQueueRunResponses,
   SessionRevertErrors,
   SessionRevertResponses,
   SessionShareErrors,
@@ -1182,6 +1204,280 @@ export class Session extends HeyApiClient {
     })
   }
 
+  /**
+   * Get session debug phase
+   *
+   * Retrieve the debug agent's workflow state for a session: the current phase, step and auto-confirm setting. Returns null if the session has not used the debug agent.
+   */
+  public debugPhase<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionDebugPhaseResponses, SessionDebugPhaseErrors, ThrowOnError>({
+      url: "/session/{sessionID}/debug-phase",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get session task queue
+   *
+   * Retrieve the tasks queued in a session, in run order, with each task's status, child session, changed files and review verdict.
+   */
+  public queue<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionQueueResponses, SessionQueueErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Add queue tasks
+   *
+   * Add tasks to the end of a session's task queue. Tasks stay pending until the queue runs.
+   */
+  public queueAdd<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      tasks?: Array<{
+        title: string
+        prompt: string
+        agent?: string
+      }>
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "tasks" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionQueueAddResponses, SessionQueueAddErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Reorder queue tasks
+   *
+   * Move the given tasks to the front of a session's task queue in the given order. Other tasks keep their relative order after them.
+   */
+  public queueReorder<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      order?: Array<string>
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "order" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionQueueReorderResponses, SessionQueueReorderErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue/reorder",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Run session task queue
+   *
+   * Start running a session's pending tasks in order, each in its own child session, and return immediately. Progress is published as session.queue.updated events.
+   */
+  public queueRun<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      model?: {
+        providerID: string
+        modelID: string
+      }
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "model" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionQueueRunResponses, SessionQueueRunErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue/run",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Cancel queue task
+   *
+   * Cancel a pending or running task. A running task's child session is aborted.
+   */
+  public queueCancel<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      taskID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "taskID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionQueueCancelResponses, SessionQueueCancelErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue/{taskID}/cancel",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Re-queue task
+   *
+   * Put a completed, failed or cancelled task back at the end of the queue so it runs again in a new child session.
+   */
+  public queueRequeue<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      taskID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "taskID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionQueueRequeueResponses, SessionQueueRequeueErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue/{taskID}/requeue",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get queue task diff
+   *
+   * Get the file changes a queued task made, between the snapshots taken before and after it ran.
+   */
+  public queueDiff<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      taskID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "path", key: "taskID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionQueueDiffResponses, SessionQueueDiffErrors, ThrowOnError>({
+      url: "/session/{sessionID}/queue/{taskID}/diff",
+      ...options,
+      ...params,
+    })
+  }
+
   /**
    * Initialize session
    *
@@ -1423,6 +1719,43 @@ export class Session extends HeyApiClient {
     })
   }
 
+  /**
+   * Assess prompt
+   *
+   * Assess which mode a prompt calls for, with the confidence and reason. This is the same assessment the session applies when a prompt is sent without an agent.
+   */
+  public assess<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+      text?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "text" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<SessionAssessResponses, SessionAssessErrors, ThrowOnError>({
+      url: "/session/{sessionID}/assess",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
   /**
    * Get session messages
    *
@@ -1470,6 +1803,8 @@ export class Session extends HeyApiClient {
         modelID: string
       }
       agent?: string
+      assessment?: Assessment
+      override?: boolean
       noReply?: boolean
       tools?: {
         [key: string]: boolean
@@ -1491,6 +1826,8 @@ export class Session extends HeyApiClient {
             { in: "body", key: "messageID" },
             { in: "body", key: "model" },
             { in: "body", key: "agent" },
+            { in: "body", key: "assessment" },
+            { in: "body", key: "override" },
             { in: "body", key: "noReply" },
             { in: "body", key: "tools" },
             { in: "body", key: "format" },
@@ -1560,6 +1897,8 @@ export class Session extends HeyApiClient {
         modelID: string
       }
       agent?: string
+      assessment?: Assessment
+      override?: boolean
       noReply?: boolean
       tools?: {
         [key: string]: boolean
@@ -1581,6 +1920,8 @@ export class Session extends HeyApiClient {
             { in: "body", key: "messageID" },
             { in: "body", key: "model" },
             { in: "body", key: "agent" },
+            { in: "body", key: "assessment" },
+            { in: "body", key: "override" },
             { in: "body", key: "noReply" },
             { in: "body", key: "tools" },
             { in: "body", key: "format" },
@@ -2033,6 +2374,36 @@ export class Question extends HeyApiClient {
       ...params,
     })
   }
+
+  /**
+   * Get comprehension quiz summary
+   *
+   * Summarize graded comprehension quiz answers for a session, or for the current project if no session is given.
+   */
+  public quiz<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      sessionID?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "sessionID" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<QuestionQuizResponses, QuestionQuizErrors, ThrowOnError>({
+      url: "/question/quiz",
+      ...options,
+      ...params,
+    })
+  }
 }
 
 export class Oauth extends HeyApiClient {
@@ -3118,6 +3489,25 @@ export class App extends HeyApiClient {
       ...params,
     })
   }
+
+  /**
+   * List standards packs
+   *
+   * Get the quality standards packs available to the project, whether each is enabled, and the rule ids review verdicts refer to.
+   */
+  public standards<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<AppStandardsResponses, unknown, ThrowOnError>({
+      url: "/standards",
+      ...options,
+      ...params,
+    })
+  }
 }
 
 export class Lsp extends HeyApiClient {
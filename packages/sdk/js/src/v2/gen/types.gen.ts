@@ -115,6 +115,16 @@ export type FileDiff = {
   status?: "added" | "deleted" | "modified"
 }
 
+export type Assessment = {
+  mode: "pair" | "debug" | "vibe" | "claw" | "adaptive"
+  /**
+   * Confidence in the selected mode, from 0 to 100
+   */
+  confidence: number
+  reason: string
+  complexity: number
+}
+
 export type UserMessage = {
   id: string
   sessionID: string
@@ -138,6 +148,10 @@ export type UserMessage = {
     [key: string]: boolean
   }
   variant?: string
+  /**
+   * Why the agent was auto-selected, when none was pinned
+   */
+  assessment?: Assessment
 }
 
 export type ProviderAuthError = {
@@ -507,6 +521,40 @@ export type CompactionPart = {
   auto: boolean
 }
 
+export type StandardsPack = {
+  id: string
+  name: string
+  description: string
+  source: "builtin" | "config" | "skill" | "project"
+  location: string
+  rules: Array<{
+    id: string
+    title: string
+  }>
+  /**
+   * Whether reviews check against this pack
+   */
+  enabled: boolean
+  content: string
+}
+
+export type ReviewViolation = {
+  file: string
+  line?: number
+  standard: string
+  rule: string
+  explanation: string
+}
+
+export type ReviewPart = {
+  id: string
+  sessionID: string
+  messageID: string
+  type: "review"
+  verdict: "pass" | "fail"
+  violations: Array<ReviewViolation>
+}
+
 export type Part =
   | TextPart
   | SubtaskPart
@@ -520,6 +568,7 @@ export type Part =
   | AgentPart
   | RetryPart
   | CompactionPart
+  | ReviewPart
 
 export type EventMessagePartUpdated = {
   type: "message.part.updated"
@@ -617,6 +666,55 @@ export type QuestionOption = {
   description: string
 }
 
+export type QuizVerdict = "correct" | "partial" | "incorrect" | "skipped"
+
+export type QuizResult = {
+  id: string
+  sessionID: string
+  projectID: string
+  /**
+   * Debug workflow step the question was asked in
+   */
+  step: number
+  phase?: string
+  question: string
+  expected: string
+  answer?: string
+  verdict: QuizVerdict
+  /**
+   * Fraction of the expected answer covered, from 0 to 1
+   */
+  score: number
+  file?: string
+  line?: number
+  time: {
+    created: number
+  }
+}
+
+export type QuizFileSummary = {
+  file: string
+  total: number
+  score: number
+}
+
+export type QuizSummary = {
+  total: number
+  correct: number
+  partial: number
+  incorrect: number
+  skipped: number
+  /**
+   * Average score over all questions, from 0 to 1
+   */
+  score: number
+  /**
+   * Per-file scores, weakest first
+   */
+  files: Array<QuizFileSummary>
+  results: Array<QuizResult>
+}
+
 export type QuestionInfo = {
   /**
    * Complete question
@@ -677,6 +775,11 @@ export type EventQuestionRejected = {
   }
 }
 
+export type EventQuizRecorded = {
+  type: "quiz.recorded"
+  properties: QuizResult
+}
+
 export type EventSessionCompacted = {
   type: "session.compacted"
   properties: {
@@ -715,6 +818,65 @@ export type EventTodoUpdated = {
   }
 }
 
+export type DebugPhase = {
+  sessionID: string
+  currentPhase: string
+  currentStep: number
+  totalSteps: number | null
+  stepDescriptions: Array<string>
+  autoConfirm: boolean
+}
+
+export type QueueTaskStatus = "pending" | "running" | "completed" | "failed" | "cancelled"
+
+export type QueueTaskFile = {
+  file: string
+  additions: number
+  deletions: number
+  status?: "added" | "deleted" | "modified"
+}
+
+export type QueueTask = {
+  id: string
+  sessionID: string
+  /**
+   * Child session the task ran in
+   */
+  childID?: string
+  title: string
+  prompt: string
+  agent: string
+  status: QueueTaskStatus
+  position: number
+  snapshot?: {
+    from: string
+    to?: string
+  }
+  /**
+   * Files changed by the task
+   */
+  files: Array<QueueTaskFile>
+  review?: {
+    verdict: "pass" | "fail"
+    violations: Array<ReviewViolation>
+  }
+  error?: string
+  time: {
+    created: number
+    updated: number
+    started?: number
+    completed?: number
+  }
+}
+
+export type EventSessionQueueUpdated = {
+  type: "session.queue.updated"
+  properties: {
+    sessionID: string
+    tasks: Array<QueueTask>
+  }
+}
+
 export type EventTuiPromptAppend = {
   type: "tui.prompt.append"
   properties: {
@@ -828,6 +990,10 @@ export type Session = {
     archived?: number
   }
   permission?: PermissionRuleset
+  /**
+   * Current sub-mode of the adaptive agent
+   */
+  mode?: string
   revert?: {
     messageID: string
     partID?: string
@@ -963,9 +1129,11 @@ export type Event =
   | EventQuestionAsked
   | EventQuestionReplied
   | EventQuestionRejected
+  | EventQuizRecorded
   | EventSessionCompacted
   | EventFileWatcherUpdated
   | EventTodoUpdated
+  | EventSessionQueueUpdated
   | EventTuiPromptAppend
   | EventTuiCommandExecute
   | EventTuiToastShow
@@ -1436,6 +1604,32 @@ export type PermissionConfig =
     }
   | PermissionActionConfig
 
+export type DebugWorkflowConfig = {
+  /**
+   * Phase a session starts in. Returning to it starts the next step (default: first phase listed)
+   */
+  initial?: string
+  /**
+   * Phase graph keyed by phase name
+   */
+  phases: {
+    [key: string]: {
+      /**
+       * What the agent should accomplish in this phase
+       */
+      description?: string
+      /**
+       * Tool IDs available to the agent while in this phase
+       */
+      tools: Array<string>
+      /**
+       * Phases the agent may transition to from this phase
+       */
+      next: Array<string>
+    }
+  }
+}
+
 export type AgentConfig = {
   model?: string
   /**
@@ -1477,6 +1671,10 @@ export type AgentConfig = {
    */
   maxSteps?: number
   permission?: PermissionConfig
+  /**
+   * Phase graph and per-phase tool allowlists for the debug agent (default: the built-in debug workflow)
+   */
+  workflow?: DebugWorkflowConfig
   [key: string]:
     | unknown
     | string
@@ -1501,6 +1699,7 @@ export type AgentConfig = {
     | "info"
     | number
     | PermissionConfig
+    | DebugWorkflowConfig
     | undefined
 }
 
@@ -1865,6 +2064,20 @@ export type Config = {
      */
     reserved?: number
   }
+  assessor?: {
+    /**
+     * Ask a small model to classify prompts when auto-selecting a mode. The keyword heuristic is used when disabled or when the model fails (default: false)
+     */
+    llm?: boolean
+    /**
+     * Model to classify prompts with, in the format of provider/model. Defaults to the small model
+     */
+    model?: string
+    /**
+     * Milliseconds to wait for the model's classification before falling back to the heuristic (default: 3000)
+     */
+    timeout?: number
+  }
   experimental?: {
     disable_paste_summary?: boolean
     /**
@@ -3161,6 +3374,328 @@ export type SessionTodoResponses = {
 
 export type SessionTodoResponse = SessionTodoResponses[keyof SessionTodoResponses]
 
+export type SessionDebugPhaseData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/debug-phase"
+}
+
+export type SessionDebugPhaseErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionDebugPhaseError = SessionDebugPhaseErrors[keyof SessionDebugPhaseErrors]
+
+export type SessionDebugPhaseResponses = {
+  /**
+   * Debug phase state
+   */
+  200: DebugPhase | null
+}
+
+export type SessionDebugPhaseResponse = SessionDebugPhaseResponses[keyof SessionDebugPhaseResponses]
+
+export type SessionQueueData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue"
+}
+
+export type SessionQueueErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueError = SessionQueueErrors[keyof SessionQueueErrors]
+
+export type SessionQueueResponses = {
+  /**
+   * Task queue
+   */
+  200: Array<QueueTask>
+}
+
+export type SessionQueueResponse = SessionQueueResponses[keyof SessionQueueResponses]
+
+export type SessionQueueAddData = {
+  body?: {
+    tasks: Array<{
+      /**
+       * A short (3-5 words) description of the task
+       */
+      title: string
+      /**
+       * The full instructions for the task
+       */
+      prompt: string
+      /**
+       * Subagent to run the task with, defaults to general
+       */
+      agent?: string
+    }>
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue"
+}
+
+export type SessionQueueAddErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueAddError = SessionQueueAddErrors[keyof SessionQueueAddErrors]
+
+export type SessionQueueAddResponses = {
+  /**
+   * Added tasks
+   */
+  200: Array<QueueTask>
+}
+
+export type SessionQueueAddResponse = SessionQueueAddResponses[keyof SessionQueueAddResponses]
+
+export type SessionQueueReorderData = {
+  body?: {
+    order: Array<string>
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue/reorder"
+}
+
+export type SessionQueueReorderErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueReorderError = SessionQueueReorderErrors[keyof SessionQueueReorderErrors]
+
+export type SessionQueueReorderResponses = {
+  /**
+   * Task queue
+   */
+  200: Array<QueueTask>
+}
+
+export type SessionQueueReorderResponse = SessionQueueReorderResponses[keyof SessionQueueReorderResponses]
+
+export type SessionQueueRunData = {
+  body?: {
+    model?: {
+      providerID: string
+      modelID: string
+    }
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue/run"
+}
+
+export type SessionQueueRunErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueRunError = SessionQueueRunErrors[keyof SessionQueueRunErrors]
+
+export type SessionQueueRunResponses = {
+  /**
+   * Task queue
+   */
+  200: Array<QueueTask>
+}
+
+export type SessionQueueRunResponse = SessionQueueRunResponses[keyof SessionQueueRunResponses]
+
+export type SessionQueueCancelData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Task ID
+     */
+    taskID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue/{taskID}/cancel"
+}
+
+export type SessionQueueCancelErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueCancelError = SessionQueueCancelErrors[keyof SessionQueueCancelErrors]
+
+export type SessionQueueCancelResponses = {
+  /**
+   * Cancelled task
+   */
+  200: QueueTask
+}
+
+export type SessionQueueCancelResponse = SessionQueueCancelResponses[keyof SessionQueueCancelResponses]
+
+export type SessionQueueRequeueData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Task ID
+     */
+    taskID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue/{taskID}/requeue"
+}
+
+export type SessionQueueRequeueErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueRequeueError = SessionQueueRequeueErrors[keyof SessionQueueRequeueErrors]
+
+export type SessionQueueRequeueResponses = {
+  /**
+   * Re-queued task
+   */
+  200: QueueTask
+}
+
+export type SessionQueueRequeueResponse = SessionQueueRequeueResponses[keyof SessionQueueRequeueResponses]
+
+export type SessionQueueDiffData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+    /**
+     * Task ID
+     */
+    taskID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/queue/{taskID}/diff"
+}
+
+export type SessionQueueDiffErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionQueueDiffError = SessionQueueDiffErrors[keyof SessionQueueDiffErrors]
+
+export type SessionQueueDiffResponses = {
+  /**
+   * Task diff
+   */
+  200: Array<FileDiff>
+}
+
+export type SessionQueueDiffResponse = SessionQueueDiffResponses[keyof SessionQueueDiffResponses]
+
 export type SessionInitData = {
   body?: {
     modelID: string
@@ -3383,6 +3918,44 @@ export type SessionSummarizeResponses = {
 
 export type SessionSummarizeResponse = SessionSummarizeResponses[keyof SessionSummarizeResponses]
 
+export type SessionAssessData = {
+  body?: {
+    text: string
+  }
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/assess"
+}
+
+export type SessionAssessErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionAssessError = SessionAssessErrors[keyof SessionAssessErrors]
+
+export type SessionAssessResponses = {
+  /**
+   * Assessment
+   */
+  200: Assessment
+}
+
+export type SessionAssessResponse = SessionAssessResponses[keyof SessionAssessResponses]
+
 export type SessionMessagesData = {
   body?: never
   path: {
@@ -3431,6 +4004,14 @@ export type SessionPromptData = {
       modelID: string
     }
     agent?: string
+    /**
+     * Assessment the client already ran for this prompt with the assess route. Recorded on the message when agent is its mode, instead of assessing again
+     */
+    assessment?: Assessment
+    /**
+     * The user picked agent over the assessed mode. Remembered so similar prompts in the project follow suit
+     */
+    override?: boolean
     noReply?: boolean
     /**
      * @deprecated tools and permissions have been merged, you can set permissions on the session itself now
@@ -3619,6 +4200,14 @@ export type SessionPromptAsyncData = {
       modelID: string
     }
     agent?: string
+    /**
+     * Assessment the client already ran for this prompt with the assess route. Recorded on the message when agent is its mode, instead of assessing again
+     */
+    assessment?: Assessment
+    /**
+     * The user picked agent over the assessed mode. Remembered so similar prompts in the project follow suit
+     */
+    override?: boolean
     noReply?: boolean
     /**
      * @deprecated tools and permissions have been merged, you can set permissions on the session itself now
@@ -4010,6 +4599,37 @@ export type QuestionRejectResponses = {
 
 export type QuestionRejectResponse = QuestionRejectResponses[keyof QuestionRejectResponses]
 
+export type QuestionQuizData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    /**
+     * Limit the summary to a single session
+     */
+    sessionID?: string
+  }
+  url: "/question/quiz"
+}
+
+export type QuestionQuizErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type QuestionQuizError = QuestionQuizErrors[keyof QuestionQuizErrors]
+
+export type QuestionQuizResponses = {
+  /**
+   * Quiz summary
+   */
+  200: QuizSummary
+}
+
+export type QuestionQuizResponse = QuestionQuizResponses[keyof QuestionQuizResponses]
+
 export type ProviderListData = {
   body?: never
   path?: never
@@ -5010,6 +5630,24 @@ export type AppSkillsResponses = {
 
 export type AppSkillsResponse = AppSkillsResponses[keyof AppSkillsResponses]
 
+export type AppStandardsData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/standards"
+}
+
+export type AppStandardsResponses = {
+  /**
+   * List of standards packs
+   */
+  200: Array<StandardsPack>
+}
+
+export type AppStandardsResponse = AppStandardsResponses[keyof AppStandardsResponses]
+
 export type LspStatusData = {
   body?: never
   path?: never
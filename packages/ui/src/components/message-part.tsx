@@ -19,6 +19,7 @@ import {
   Message as MessageType,
   Part as PartType,
   ReasoningPart,
+  ReviewPart,
   TextPart,
   ToolPart,
   UserMessage,
@@ -758,9 +759,30 @@ export function UserMessageDisplay(props: { message: UserMessage; parts: PartTyp
             <Show when={metaHead() || metaTail()}>
               <span data-slot="user-message-meta-wrap">
                 <Show when={metaHead()}>
-                  <span data-slot="user-message-meta" class="text-12-regular text-text-weak cursor-default">
-                    {metaHead()}
-                  </span>
+                  <Show
+                    when={props.message.assessment}
+                    fallback={
+                      <span data-slot="user-message-meta" class="text-12-regular text-text-weak cursor-default">
+                        {metaHead()}
+                      </span>
+                    }
+                  >
+                    {(assessment) => (
+                      <Tooltip
+                        value={i18n.t("ui.message.assessment", {
+                          mode: assessment().mode,
+                          confidence: assessment().confidence,
+                          reason: assessment().reason,
+                        })}
+                        placement="top"
+                        gutter={4}
+                      >
+                        <span data-slot="user-message-meta" class="text-12-regular text-text-weak cursor-default">
+                          {metaHead()}
+                        </span>
+                      </Tooltip>
+                    )}
+                  </Show>
                 </Show>
                 <Show when={metaHead() && metaTail()}>
                   <span data-slot="user-message-meta-sep" class="text-12-regular text-text-weak cursor-default">
@@ -1153,6 +1175,54 @@ PART_MAPPING["reasoning"] = function ReasoningPartDisplay(props) {
   )
 }
 
+PART_MAPPING["review"] = function ReviewPartDisplay(props) {
+  const part = props.part as ReviewPart
+  const data = useData()
+  const i18n = useI18n()
+
+  return (
+    <div data-component="review-part" data-verdict={part.verdict}>
+      <div data-slot="review-part-header">
+        <Icon name={part.verdict === "pass" ? "check" : "circle-x"} size="small" />
+        <span data-slot="review-part-title">
+          {i18n.t(
+            part.verdict === "pass" ? "ui.messagePart.standardsReview.pass" : "ui.messagePart.standardsReview.fail",
+          )}
+        </span>
+        <Show when={part.violations.length > 0}>
+          <span data-slot="review-part-count">
+            {i18n.t("ui.messagePart.standardsReview.violations", { count: part.violations.length })}
+          </span>
+        </Show>
+      </div>
+      <For each={part.violations}>
+        {(violation) => {
+          const location = violation.line ? `${violation.file}:${violation.line}` : violation.file
+          return (
+            <div data-slot="review-part-violation">
+              <Show when={data.openFile} fallback={<span data-slot="review-part-location">{location}</span>}>
+                {(open) => (
+                  <button
+                    type="button"
+                    data-slot="review-part-location"
+                    onClick={() => open()(violation.file, violation.line)}
+                  >
+                    {location}
+                  </button>
+                )}
+              </Show>
+              <span data-slot="review-part-rule">
+                {violation.standard} / {violation.rule}
+              </span>
+              <span data-slot="review-part-explanation">{violation.explanation}</span>
+            </div>
+          )
+        }}
+      </For>
+    </div>
+  )
+}
+
 ToolRegistry.register({
   name: "read",
   render(props) {
@@ -49,6 +49,9 @@ export const dict = {
   "ui.messagePart.title.write": "Write",
   "ui.messagePart.option.typeOwnAnswer": "Type your own answer",
   "ui.messagePart.review.title": "Review your answers",
+  "ui.messagePart.standardsReview.pass": "Standards review passed",
+  "ui.messagePart.standardsReview.fail": "Standards review failed",
+  "ui.messagePart.standardsReview.violations": "{{count}} violations",
 
   "ui.list.loading": "Loading",
   "ui.list.empty": "No results",
@@ -101,6 +104,7 @@ export const dict = {
   "ui.message.copyMessage": "Copy message",
   "ui.message.copyResponse": "Copy response",
   "ui.message.copied": "Copied",
+  "ui.message.assessment": "Auto-selected {{mode}} ({{confidence}}% confidence): {{reason}}",
   "ui.message.interrupted": "Interrupted",
   "ui.message.attachment.alt": "attachment",
 
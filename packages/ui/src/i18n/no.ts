@@ -52,6 +52,9 @@ export const dict: Record<Keys, string> = {
   "ui.messagePart.title.write": "Skriv",
   "ui.messagePart.option.typeOwnAnswer": "Skriv ditt eget svar",
   "ui.messagePart.review.title": "Gjennomgå svarene dine",
+  "ui.messagePart.standardsReview.pass": "Standardgjennomgang bestått",
+  "ui.messagePart.standardsReview.fail": "Standardgjennomgang feilet",
+  "ui.messagePart.standardsReview.violations": "{{count}} brudd",
 
   "ui.list.loading": "Laster",
   "ui.list.empty": "Ingen resultater",
@@ -104,6 +107,7 @@ export const dict: Record<Keys, string> = {
   "ui.message.copyMessage": "Kopier melding",
   "ui.message.copyResponse": "Kopier svar",
   "ui.message.copied": "Kopiert!",
+  "ui.message.assessment": "Valgte {{mode}} automatisk ({{confidence}}% sikkerhet): {{reason}}",
   "ui.message.interrupted": "Avbrutt",
   "ui.message.attachment.alt": "vedlegg",
 